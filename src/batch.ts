@@ -0,0 +1,129 @@
+/**
+ * Thresholds that trigger a flush
+ */
+export type BatchThresholds = {
+	/**
+	 * Flush when this many entries are buffered
+	 */
+	maxEntries: number;
+	/**
+	 * Flush when the buffered entries exceed this many bytes
+	 */
+	maxBytes: number;
+	/**
+	 * Flush when the oldest buffered entry is this old (ms, 0 to disable)
+	 */
+	maxWaitMs: number;
+};
+
+/**
+ * Batcher options
+ */
+export type BatcherOptions<E> = BatchThresholds & {
+	/**
+	 * Estimate the size of an entry in bytes
+	 */
+	size: (entry: E) => number;
+	/**
+	 * Deliver a batch of entries
+	 */
+	send: (entries: E[]) => Promise<void>;
+};
+
+const DEFAULT_BATCH_THRESHOLDS: BatchThresholds = {
+	maxEntries: 100,
+	maxBytes: 1024 * 1024,
+	maxWaitMs: 1000,
+};
+
+/**
+ * Resolve the batch option of a transport.
+ * Without it every entry is delivered immediately.
+ *
+ * @param batch
+ */
+export const resolveBatchThresholds = (
+	batch?: boolean | Partial<BatchThresholds>,
+): BatchThresholds =>
+	batch
+		? { ...DEFAULT_BATCH_THRESHOLDS, ...(batch === true ? {} : batch) }
+		: { maxEntries: 1, maxBytes: Number.POSITIVE_INFINITY, maxWaitMs: 0 };
+
+/**
+ * Batcher
+ */
+export type Batcher<E> = {
+	/**
+	 * Buffer an entry. Returns the delivery promise when a threshold was hit.
+	 */
+	add: (entry: E) => Promise<void> | undefined;
+	/**
+	 * Deliver everything buffered and wait for in-flight deliveries
+	 */
+	flush: () => Promise<void>;
+};
+
+/**
+ * Create a batcher that buffers entries until a count/size/age threshold
+ *
+ * @param options
+ */
+export const createBatcher = <E>(options: BatcherOptions<E>): Batcher<E> => {
+	let buffer: E[] = [];
+	let bytes = 0;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const pending = new Set<Promise<void>>();
+
+	const drain = (): Promise<void> | undefined => {
+		if (timer !== undefined) {
+			clearTimeout(timer);
+			timer = undefined;
+		}
+		if (buffer.length === 0) {
+			return undefined;
+		}
+
+		const entries = buffer;
+		buffer = [];
+		bytes = 0;
+
+		const promise: Promise<void> = options.send(entries).then(
+			() => {
+				pending.delete(promise);
+			},
+			(e) => {
+				pending.delete(promise);
+				throw e;
+			},
+		);
+		pending.add(promise);
+		return promise;
+	};
+
+	return {
+		add: (entry) => {
+			buffer.push(entry);
+			// Sizing serializes the entry, which is wasted when every entry is sent alone
+			if (options.maxEntries > 1) {
+				bytes += options.size(entry);
+			}
+
+			if (buffer.length >= options.maxEntries || bytes >= options.maxBytes) {
+				return drain();
+			}
+
+			if (timer === undefined && options.maxWaitMs > 0) {
+				timer = setTimeout(() => {
+					drain()?.catch(() => {});
+				}, options.maxWaitMs);
+				// Don't keep Node.js alive just for a pending flush
+				(timer as { unref?: () => void }).unref?.();
+			}
+			return undefined;
+		},
+		flush: async () => {
+			drain();
+			await Promise.all(Array.from(pending));
+		},
+	};
+};
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { captureConsole, withoutCapture } from "./capture";
+import { getLokiLogger } from "./logger";
+import { consoleTransport, memoryTransport } from "./transports";
+
+describe("captureConsole", () => {
+	let logSpy: ReturnType<typeof vi.spyOn>;
+	let restore: (() => void) | undefined;
+
+	beforeEach(() => {
+		logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		restore?.();
+		restore = undefined;
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+	});
+
+	it("should forward console calls with the matching level", () => {
+		const memory = memoryTransport();
+		restore = captureConsole(getLokiLogger({ transports: [memory] }), {
+			labels: { source: "console" },
+		});
+		const error = new Error("boom");
+		console.log("Listening on %s:%d (%i%%)", "localhost", 8080, 99.5);
+		console.warn("Deprecated", { since: 2 });
+		console.error("Request failed", error);
+
+		expect(
+			memory.entries.map((e) => [e.level, e.message, e.labels.source]),
+		).toEqual([
+			["info", { message: "Listening on localhost:8080 (99%)" }, "console"],
+			["warn", { message: 'Deprecated {"since":2}' }, "console"],
+			["error", { message: "Request failed Error: boom", error }, "console"],
+		]);
+		expect(logSpy).toHaveBeenCalledWith(
+			"Listening on %s:%d (%i%%)",
+			"localhost",
+			8080,
+			99.5,
+		);
+	});
+
+	it("should not capture cloki's own console output", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory, consoleTransport()],
+		});
+		restore = captureConsole(logger, { passthrough: false });
+		console.log("third-party");
+		await logger.info("direct");
+		withoutCapture(() => console.log("raw"));
+
+		expect(memory.entries.map((e) => e.message)).toEqual([
+			{ message: "third-party" },
+			{ message: "direct" },
+		]);
+		expect(logSpy.mock.calls).toEqual([
+			['{"message":"third-party"}'],
+			['{"message":"direct"}'],
+			["raw"],
+		]);
+	});
+
+	it("should capture only the given methods and restore the console", () => {
+		const memory = memoryTransport();
+		const original = console.debug;
+		restore = captureConsole(getLokiLogger({ transports: [memory] }), {
+			methods: ["error"],
+		});
+		const patched = console.error;
+		console.debug("not captured");
+		console.error("captured");
+		restore();
+
+		expect(console.error).not.toBe(patched);
+		expect(console.debug).toBe(original);
+		console.error("after restore");
+		expect(memory.entries.map((e) => e.message)).toEqual([
+			{ message: "captured" },
+		]);
+	});
+
+	it("should log unhandled rejections and errors", () => {
+		const target = new EventTarget();
+		vi.stubGlobal("addEventListener", target.addEventListener.bind(target));
+		vi.stubGlobal(
+			"removeEventListener",
+			target.removeEventListener.bind(target),
+		);
+		const memory = memoryTransport();
+		restore = captureConsole(getLokiLogger({ transports: [memory] }), {
+			methods: [],
+			uncaught: true,
+		});
+		const error = new TypeError("bad");
+		target.dispatchEvent(
+			Object.assign(new Event("unhandledrejection"), { reason: error }),
+		);
+		target.dispatchEvent(
+			Object.assign(new Event("error"), { message: "Script error" }),
+		);
+		restore();
+		target.dispatchEvent(new Event("error"));
+
+		expect(memory.entries.map((e) => [e.level, e.message])).toEqual([
+			["error", { message: "Unhandled rejection: TypeError: bad", error }],
+			["error", { message: "Uncaught error: Script error" }],
+		]);
+	});
+});
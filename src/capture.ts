@@ -0,0 +1,213 @@
+import type { LogLevel } from "./levels";
+import type { LokiLabels, LokiLogger } from "./logger";
+import { isError, safeStringify } from "./serialize";
+
+/**
+ * Console methods that can be captured
+ */
+export type ConsoleMethod = "debug" | "info" | "warn" | "error" | "log";
+
+const CONSOLE_LEVELS: Record<ConsoleMethod, LogLevel> = {
+	debug: "debug",
+	info: "info",
+	log: "info",
+	warn: "warn",
+	error: "error",
+};
+
+/**
+ * captureConsole options
+ */
+export type CaptureConsoleOptions<T extends string = string> = {
+	/**
+	 * Methods to capture (default: debug, info, warn, error and log)
+	 */
+	methods?: ConsoleMethod[];
+	/**
+	 * Still write to the original console (default: true)
+	 */
+	passthrough?: boolean;
+	/**
+	 * Labels added to captured logs
+	 */
+	labels?: LokiLabels<T>;
+	/**
+	 * Log unhandledrejection and error events where the runtime dispatches
+	 * them on globalThis (default: false)
+	 */
+	uncaught?: boolean;
+};
+
+/**
+ * Minimal EventTarget of globalThis in Workers and browsers
+ */
+type GlobalEventTarget = {
+	addEventListener?: (type: string, listener: (event: never) => void) => void;
+	removeEventListener?: (
+		type: string,
+		listener: (event: never) => void,
+	) => void;
+};
+
+/**
+ * Depth of calls that must not be captured, e.g. cloki writing to the console
+ */
+let uncapturedDepth = 0;
+
+/**
+ * Run a function whose console output is not captured.
+ * cloki writes to the console this way, so captured calls cannot loop
+ *
+ * @param fn
+ */
+export function withoutCapture<R>(fn: () => R): R {
+	uncapturedDepth++;
+	try {
+		return fn();
+	} finally {
+		uncapturedDepth--;
+	}
+}
+
+/**
+ * Forward console.* calls to a logger with the matching level
+ * (console.log logs at info). Format arguments like "%s" are applied.
+ * Returns a function restoring the console.
+ *
+ * @param logger
+ * @param options
+ */
+export const captureConsole = <T extends string = string>(
+	logger: LokiLogger<T>,
+	options: CaptureConsoleOptions<T> = {},
+): (() => void) => {
+	const methods = options.methods ?? ["debug", "info", "warn", "error", "log"];
+	const passthrough = options.passthrough ?? true;
+	const originals = new Map<ConsoleMethod, (...args: unknown[]) => void>();
+
+	const forward = (level: LogLevel, args: unknown[]) => {
+		withoutCapture(() => {
+			logger
+				.log(level, formatConsoleArgs(args), options.labels)
+				.catch((error) =>
+					withoutCapture(() =>
+						console.error("cloki: captured console log failed:", error),
+					),
+				);
+		});
+	};
+
+	for (const method of methods) {
+		const original = console[method];
+		originals.set(method, original);
+		console[method] = (...args: unknown[]) => {
+			if (passthrough || uncapturedDepth > 0) {
+				original.apply(console, args);
+			}
+			if (uncapturedDepth === 0) {
+				forward(CONSOLE_LEVELS[method], args);
+			}
+		};
+	}
+
+	const target = globalThis as unknown as GlobalEventTarget;
+	const onRejection = (event: { reason?: unknown }) =>
+		forward("error", ["Unhandled rejection:", event.reason]);
+	const onError = (event: { message?: string; error?: unknown }) =>
+		forward("error", [
+			"Uncaught error:",
+			event.error ?? event.message ?? "unknown error",
+		]);
+	const hookEvents =
+		options.uncaught && typeof target.addEventListener === "function";
+	if (hookEvents) {
+		target.addEventListener?.("unhandledrejection", onRejection);
+		target.addEventListener?.("error", onError);
+	}
+
+	return () => {
+		for (const [method, original] of originals) {
+			console[method] = original;
+		}
+		originals.clear();
+		if (hookEvents) {
+			target.removeEventListener?.("unhandledrejection", onRejection);
+			target.removeEventListener?.("error", onError);
+		}
+	};
+};
+
+/**
+ * Turn console arguments into a message, applying format specifiers
+ * of a leading string. The first Error becomes the error field
+ *
+ * @param args
+ */
+function formatConsoleArgs(args: unknown[]): {
+	message: string;
+	error?: Error;
+} {
+	const rest = [...args];
+	const parts: string[] = [];
+	if (typeof rest[0] === "string") {
+		parts.push(applyFormat(rest.shift() as string, rest));
+	}
+	parts.push(...rest.map(formatArg));
+
+	const message: { message: string; error?: Error } = {
+		message: parts.join(" "),
+	};
+	const error = args.find(isError);
+	if (error) {
+		message.error = error;
+	}
+	return message;
+}
+
+/**
+ * Replace %s, %d, %i, %f, %j, %o, %O, %c and %% with the next arguments.
+ * Used arguments are removed from args
+ *
+ * @param format
+ * @param args
+ */
+function applyFormat(format: string, args: unknown[]): string {
+	return format.replace(/%([sdifjoOc%])/g, (specifier, type: string) => {
+		if (type === "%") {
+			return "%";
+		}
+		if (args.length === 0) {
+			return specifier;
+		}
+		const arg = args.shift();
+		switch (type) {
+			case "d":
+			case "i":
+				return String(
+					type === "i" ? Number.parseInt(String(arg), 10) : Number(arg),
+				);
+			case "f":
+				return String(Number.parseFloat(String(arg)));
+			case "c":
+				// CSS styles have no meaning in a log line
+				return "";
+			case "s":
+				return formatArg(arg);
+			default:
+				return safeStringify(arg);
+		}
+	});
+}
+
+function formatArg(arg: unknown): string {
+	if (typeof arg === "string") {
+		return arg;
+	}
+	if (isError(arg)) {
+		return `${arg.name}: ${arg.message}`;
+	}
+	if (arg !== null && typeof arg === "object") {
+		return safeStringify(arg);
+	}
+	return String(arg);
+}
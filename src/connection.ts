@@ -0,0 +1,112 @@
+import { getEnv } from "./env";
+import type { LokiAuth, LokiTransportConfig } from "./loki";
+
+/**
+ * Endpoint, credentials and tenant shared by pushes and queries
+ */
+export type LokiConnectionConfig = Pick<
+	LokiTransportConfig,
+	| "lokiHost"
+	| "lokiUrl"
+	| "lokiToken"
+	| "lokiUser"
+	| "lokiAuth"
+	| "lokiTenantId"
+	| "lokiHeaders"
+	| "fetcher"
+>;
+
+const LOKI_API_PATH = "/loki/api/v1";
+
+/**
+ * Fill the endpoint, credentials and tenant from the LOKI_* environment variables
+ *
+ * @param config
+ */
+export function resolveLokiConfig<C extends LokiConnectionConfig>(
+	config: C,
+): C {
+	const hasExplicitEndpoint = Boolean(config.lokiUrl || config.lokiHost);
+	const lokiHost = hasExplicitEndpoint ? config.lokiHost : getEnv("LOKI_HOST");
+	return {
+		...config,
+		lokiHost,
+		lokiUrl:
+			config.lokiUrl ||
+			(hasExplicitEndpoint || lokiHost ? undefined : getEnv("LOKI_URL")),
+		lokiToken: config.lokiToken || getEnv("LOKI_TOKEN"),
+		lokiUser: config.lokiUser || getEnv("LOKI_USER"),
+		lokiAuth: config.lokiAuth || (getEnv("LOKI_AUTH") as LokiAuth | undefined),
+		lokiTenantId: config.lokiTenantId || getEnv("LOKI_TENANT_ID"),
+	};
+}
+
+/**
+ * Get the URL of a Loki API endpoint, e.g. getLokiApiUrl(config, "/push").
+ * A lokiUrl ending with /loki/api/v1/push is accepted as well.
+ *
+ * @param config
+ * @param path
+ */
+export function getLokiApiUrl(
+	config: LokiConnectionConfig,
+	path: string,
+): string | undefined {
+	if (config.lokiUrl) {
+		const url = config.lokiUrl
+			.replace(/\/+$/, "")
+			.replace(/\/loki\/api\/v1\/push$/, "");
+		return `${url}${LOKI_API_PATH}${path}`;
+	}
+	if (config.lokiHost) {
+		return `https://${config.lokiHost}${LOKI_API_PATH}${path}`;
+	}
+	return undefined;
+}
+
+/**
+ * Get the Authorization and X-Scope-OrgID headers for Loki
+ *
+ * @param config
+ */
+export function getLokiAuthHeaders(
+	config: LokiConnectionConfig,
+): Record<string, string> {
+	const headers: Record<string, string> = {};
+	const authorization = getLokiAuthorization(config);
+	if (authorization) {
+		headers.Authorization = authorization;
+	}
+	if (config.lokiTenantId) {
+		headers["X-Scope-OrgID"] = config.lokiTenantId;
+	}
+	return headers;
+}
+
+/**
+ * Get the Authorization header value for Loki
+ *
+ * @param config
+ */
+function getLokiAuthorization(
+	config: LokiConnectionConfig,
+): string | undefined {
+	const auth =
+		config.lokiAuth ||
+		(config.lokiToken ? (config.lokiUser ? "basic" : "bearer") : "none");
+
+	switch (auth) {
+		case "basic":
+			if (!config.lokiUser || !config.lokiToken) {
+				throw new Error("Loki configuration missing (user or token)");
+			}
+			return `Basic ${btoa(`${config.lokiUser}:${config.lokiToken}`)}`;
+		case "bearer":
+			if (!config.lokiToken) {
+				throw new Error("Loki configuration missing (token)");
+			}
+			return `Bearer ${config.lokiToken}`;
+		default:
+			return undefined;
+	}
+}
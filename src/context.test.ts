@@ -0,0 +1,159 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import Module from "node:module";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getCurrentLogger, runWithLogger } from "./context";
+import { memoryTransport } from "./transports";
+
+describe("runWithLogger", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should expose the request logger inside the async call tree", async () => {
+		const memory = memoryTransport();
+		const request = new Request("https://example.com/api", {
+			headers: { "cf-ray": "8a1b2c3d4e5f6789-NRT" },
+		});
+
+		const helper = async () => {
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			await getCurrentLogger().info("from helper");
+		};
+
+		const result = await runWithLogger(
+			request,
+			undefined,
+			async () => {
+				await helper();
+				return "done";
+			},
+			{ transports: [memory] },
+		);
+
+		expect(result).toBe("done");
+		expect(memory.entries[0].labels).toMatchObject({
+			http_method: "GET",
+			trace_id: "00000000000000008a1b2c3d4e5f6789",
+		});
+	});
+
+	it("should isolate concurrent requests", async () => {
+		const memory = memoryTransport();
+		const handle = (id: string, delay: number) =>
+			runWithLogger(
+				new Request(`https://example.com/${id}`, {
+					headers: { "x-request-id": id },
+				}),
+				undefined,
+				async () => {
+					await new Promise((resolve) => setTimeout(resolve, delay));
+					await getCurrentLogger().info(id);
+				},
+				{ transports: [memory] },
+			);
+
+		await Promise.all([handle("a", 5), handle("b", 1)]);
+
+		expect(
+			memory.entries.map((entry) => [
+				(entry.message as { message: string }).message,
+				entry.labels.request_id,
+			]),
+		).toEqual([
+			["b", "b"],
+			["a", "a"],
+		]);
+	});
+
+	it("should flush through ctx.waitUntil", async () => {
+		const flush = vi.fn(async () => {});
+		const waitUntil = vi.fn();
+		await runWithLogger(
+			new Request("https://example.com"),
+			{ waitUntil },
+			(logger) => logger.info("test"),
+			{ transports: [{ write: () => {}, flush }] },
+		);
+
+		expect(flush).toHaveBeenCalledTimes(1);
+		expect(waitUntil).toHaveBeenCalled();
+	});
+
+	it("should throw outside of runWithLogger", () => {
+		expect(() => getCurrentLogger()).toThrow(
+			"getCurrentLogger() was called outside of runWithLogger()",
+		);
+	});
+});
+
+describe("AsyncLocalStorage lookup", () => {
+	const runtime = process as { getBuiltinModule?: unknown };
+	const getBuiltinModule = runtime.getBuiltinModule;
+
+	beforeEach(() => {
+		vi.resetModules();
+		// Like Node.js before 20.16
+		runtime.getBuiltinModule = undefined;
+	});
+
+	afterEach(() => {
+		runtime.getBuiltinModule = getBuiltinModule;
+		vi.restoreAllMocks();
+	});
+
+	it("should fall back to require without getBuiltinModule", async () => {
+		const context = await import("./context");
+
+		await expect(
+			context.runWithLogger(
+				new Request("https://example.com"),
+				undefined,
+				() => context.getCurrentLogger() !== undefined,
+				{ transports: [] },
+			),
+		).resolves.toBe(true);
+	});
+
+	it("should use the class passed to setAsyncLocalStorage", async () => {
+		const context = await import("./context");
+		const run = vi.spyOn(AsyncLocalStorage.prototype, "run");
+		context.setAsyncLocalStorage(AsyncLocalStorage);
+
+		await context.runWithLogger(
+			new Request("https://example.com"),
+			undefined,
+			() => {},
+			{ transports: [] },
+		);
+
+		expect(run).toHaveBeenCalledTimes(1);
+	});
+
+	it("should throw a clear error", async () => {
+		const context = await import("./context");
+		// Make require("node:async_hooks") fail as in runtimes without it
+		const loader = Module as unknown as {
+			_load: (id: string, ...args: unknown[]) => unknown;
+		};
+		const load = loader._load;
+		vi.spyOn(loader, "_load").mockImplementation((id, ...args) => {
+			if (id === "node:async_hooks") {
+				throw new Error("Cannot find module");
+			}
+			return load.call(Module, id, ...args);
+		});
+
+		await expect(
+			context.runWithLogger(
+				new Request("https://example.com"),
+				undefined,
+				() => 1,
+			),
+		).rejects.toThrow(
+			"cloki: AsyncLocalStorage is not available. Update Node.js, pass AsyncLocalStorage to setAsyncLocalStorage(), or pass the logger explicitly.",
+		);
+		expect(() => context.getCurrentLogger()).toThrow(
+			"AsyncLocalStorage is not available",
+		);
+	});
+});
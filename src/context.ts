@@ -0,0 +1,170 @@
+import {
+	type CfProperties,
+	type ExecutionContext,
+	getLokiLogger,
+	type LokiConfig,
+	type LokiLogger,
+} from "./logger";
+
+/**
+ * Minimal AsyncLocalStorage interface (node:async_hooks)
+ */
+export type AsyncLocalStorageLike<S> = {
+	run: <R>(store: S, fn: () => R) => R;
+	getStore: () => S | undefined;
+};
+
+/**
+ * AsyncLocalStorage class of node:async_hooks
+ */
+export type AsyncLocalStorageConstructor = new <
+	S,
+>() => AsyncLocalStorageLike<S>;
+
+let storageClass: AsyncLocalStorageConstructor | undefined;
+let storage: AsyncLocalStorageLike<LokiLogger> | undefined;
+
+/**
+ * Run a function with a logger bound to the request.
+ * getCurrentLogger() returns this logger anywhere inside the async call tree.
+ * Logs are batched unless config.batch is false, and flushed when the function
+ * settles, through ctx.waitUntil if given.
+ *
+ * Requires AsyncLocalStorage (Node.js, or Workers with the nodejs_compat flag).
+ *
+ * @param request
+ * @param ctx
+ * @param fn
+ * @param config
+ */
+export const runWithLogger = async <R, T extends string = string>(
+	request: Request,
+	ctx: ExecutionContext | undefined,
+	fn: (logger: LokiLogger<T>) => Promise<R> | R,
+	config: LokiConfig<T> = {},
+): Promise<R> => {
+	const logger = getLokiLogger<T>({
+		cf: (request as Request & { cf?: CfProperties }).cf,
+		batch: true,
+		...config,
+		request,
+		ctx: ctx ?? config.ctx,
+	});
+	return getStorage().run(logger as LokiLogger, async () => {
+		try {
+			return await fn(logger);
+		} finally {
+			const flushing = logger.flush();
+			if (ctx) {
+				ctx.waitUntil(flushing);
+			} else {
+				await flushing;
+			}
+		}
+	});
+};
+
+/**
+ * Get the logger of the current runWithLogger call
+ */
+export const getCurrentLogger = <
+	T extends string = string,
+>(): LokiLogger<T> => {
+	const logger = getStorage().getStore();
+	if (!logger) {
+		throw new Error(
+			"cloki: getCurrentLogger() was called outside of runWithLogger()",
+		);
+	}
+	return logger as LokiLogger<T>;
+};
+
+/**
+ * Run a function with getCurrentLogger() returning the logger.
+ * Without AsyncLocalStorage, the function just runs
+ *
+ * @param logger
+ * @param fn
+ */
+export const withCurrentLogger = <R, T extends string = string>(
+	logger: LokiLogger<T>,
+	fn: () => R,
+): R => {
+	const current = findStorage();
+	return current ? current.run(logger as LokiLogger, fn) : fn();
+};
+
+/**
+ * Use this AsyncLocalStorage class for runWithLogger, e.g. when the bundle
+ * imports node:async_hooks itself. undefined restores the lookup
+ *
+ * @param AsyncLocalStorage
+ */
+export const setAsyncLocalStorage = (
+	AsyncLocalStorage: AsyncLocalStorageConstructor | undefined,
+): void => {
+	storageClass = AsyncLocalStorage;
+	storage = undefined;
+};
+
+/**
+ * Get the shared AsyncLocalStorage, creating it on first use
+ */
+function getStorage(): AsyncLocalStorageLike<LokiLogger> {
+	const current = findStorage();
+	if (!current) {
+		throw new Error(
+			`cloki: AsyncLocalStorage is not available. ${
+				isNode()
+					? "Update Node.js"
+					: "Enable the nodejs_compat compatibility flag on Cloudflare Workers"
+			}, pass AsyncLocalStorage to setAsyncLocalStorage(), or pass the logger explicitly.`,
+		);
+	}
+	return current;
+}
+
+/**
+ * Get the shared AsyncLocalStorage, or undefined when it is not available
+ */
+function findStorage(): AsyncLocalStorageLike<LokiLogger> | undefined {
+	if (!storage) {
+		const AsyncLocalStorage = storageClass ?? findAsyncLocalStorage();
+		storage = AsyncLocalStorage && new AsyncLocalStorage<LokiLogger>();
+	}
+	return storage;
+}
+
+/**
+ * Look up AsyncLocalStorage without a static import of node:async_hooks,
+ * so bundles still build for runtimes without it
+ */
+function findAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+	const global = globalThis as unknown as {
+		AsyncLocalStorage?: AsyncLocalStorageConstructor;
+		process?: {
+			getBuiltinModule?: (id: string) => {
+				AsyncLocalStorage?: AsyncLocalStorageConstructor;
+			};
+		};
+	};
+	if (global.AsyncLocalStorage) {
+		return global.AsyncLocalStorage;
+	}
+	try {
+		const asyncHooks =
+			global.process?.getBuiltinModule?.("node:async_hooks") ??
+			// Node.js before 20.16 has no getBuiltinModule. Called indirectly so
+			// bundlers don't try to resolve node:async_hooks
+			(typeof require === "function" ? require : undefined)?.(
+				"node:async_hooks",
+			);
+		return asyncHooks?.AsyncLocalStorage;
+	} catch (_e) {
+		return undefined;
+	}
+}
+
+function isNode(): boolean {
+	return typeof process !== "undefined" && Boolean(process.versions?.node);
+}
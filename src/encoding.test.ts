@@ -0,0 +1,126 @@
+import { gunzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+	decodePushRequest,
+	encodePushRequest,
+	formatLabelSet,
+	gunzip,
+	gzip,
+	parseLabelSet,
+	snappyCompress,
+	snappyUncompress,
+} from "./encoding";
+import type { LokiMessage } from "./loki";
+
+const message: LokiMessage = {
+	streams: [
+		{
+			stream: { level: "info", app: "api" },
+			values: [
+				["1700000000123456789", '{"message":"hello"}', { trace_id: "abc" }],
+				["1700000001000000000", "second"],
+			],
+		},
+		{
+			stream: { level: "error", app: 'q"x\\y' },
+			values: [["5", "ünïcode ✓"]],
+		},
+	],
+};
+
+// Verified by decoding with protobufjs (logproto push.proto) and snappyjs
+const PUSH_REQUEST_HEX =
+	"0a620a197b6170703d22617069222c206c6576656c3d22696e666f227d12330a0b0880e2cfaa0610959aef3a12137b226d657373616765223a2268656c6c6f227d1a0f0a0874726163655f6964120361626312100a060881e2cfaa0612067365636f6e640a350a1e7b6170703d22715c22785c5c79222c206c6576656c3d226572726f72227d12130a021005120dc3bc6ec3af636f646520e29c93";
+const SNAPPY_HEX =
+	"9b01f0570a620a197b6170703d22617069222c206c6576656c3d22696e666f227d12330a0b0880e2cfaa0610959aef3a12137b226d657373616765223a2268656c6c6f227d1a0f0a0874726163655f6964120361626312100a06088101352c12067365636f6e640a350a1e096418715c22785c5c7919686c6572726f72227d12130a021005120dc3bc6ec3af636f646520e29c93";
+
+const toHex = (bytes: Uint8Array | ArrayBuffer) =>
+	Buffer.from(bytes as Uint8Array).toString("hex");
+
+describe("encodePushRequest", () => {
+	it("should encode a logproto PushRequest", () => {
+		expect(toHex(encodePushRequest(message))).toBe(PUSH_REQUEST_HEX);
+	});
+
+	it("should format labels as a sorted Prometheus label set", () => {
+		expect(formatLabelSet({ level: "info", app: 'a"b\\c\nd' })).toBe(
+			'{app="a\\"b\\\\c\\nd", level="info"}',
+		);
+	});
+});
+
+describe("decodePushRequest", () => {
+	it("should decode a logproto PushRequest", () => {
+		expect(
+			decodePushRequest(new Uint8Array(Buffer.from(PUSH_REQUEST_HEX, "hex"))),
+		).toEqual(message);
+	});
+
+	it("should parse escaped label values", () => {
+		expect(parseLabelSet('{app="a\\"b\\\\c\\nd", level="info"}')).toEqual({
+			app: 'a"b\\c\nd',
+			level: "info",
+		});
+	});
+
+	it("should reject truncated messages", () => {
+		expect(() => decodePushRequest(new Uint8Array([0x0a, 0x05, 0x0a]))).toThrow(
+			"Truncated protobuf message",
+		);
+	});
+});
+
+describe("snappyCompress", () => {
+	it("should compress to the snappy block format", () => {
+		expect(toHex(snappyCompress(encodePushRequest(message)))).toBe(SNAPPY_HEX);
+	});
+
+	it.each([0, 1, 4, 61, 300, 65536, 200000])(
+		"should round trip %i bytes",
+		(size) => {
+			const input = new Uint8Array(size);
+			for (let i = 0; i < size; i++) {
+				input[i] = i % 3 === 0 ? (i * 31) & 0xff : 97 + (i % 11);
+			}
+			const compressed = new Uint8Array(snappyCompress(input));
+
+			expect(snappyUncompress(compressed)).toEqual(input);
+		},
+	);
+
+	it("should compress repetitive log lines", () => {
+		const input = new TextEncoder().encode(
+			JSON.stringify(
+				Array.from({ length: 1000 }, (_, i) => ({ message: `line ${i % 10}` })),
+			),
+		);
+		const compressed = new Uint8Array(snappyCompress(input));
+
+		expect(compressed.length).toBeLessThan(input.length / 4);
+		expect(snappyUncompress(compressed)).toEqual(input);
+	});
+});
+
+describe("snappyUncompress", () => {
+	it("should reject invalid copy offsets", () => {
+		expect(() => snappyUncompress(new Uint8Array([0x04, 0x01, 0x05]))).toThrow(
+			"Invalid snappy data",
+		);
+	});
+});
+
+describe("gzip", () => {
+	it("should gzip a string", async () => {
+		const compressed = await gzip('{"streams":[]}');
+
+		expect(gunzipSync(Buffer.from(compressed)).toString()).toBe(
+			'{"streams":[]}',
+		);
+	});
+});
+
+describe("gunzip", () => {
+	it("should decompress gzip data", async () => {
+		expect(await gunzip(await gzip('{"streams":[]}'))).toBe('{"streams":[]}');
+	});
+});
@@ -0,0 +1,506 @@
+import type { LokiMessage, LokiValue } from "./loki";
+
+/**
+ * Growable byte buffer
+ */
+type ByteWriter = {
+	byte: (value: number) => void;
+	bytes: (values: Uint8Array) => void;
+	varint: (value: number) => void;
+	toBytes: () => Uint8Array;
+	toArrayBuffer: () => ArrayBuffer;
+};
+
+function createByteWriter(initialSize = 256): ByteWriter {
+	let buffer = new Uint8Array(initialSize);
+	let length = 0;
+
+	const reserve = (size: number) => {
+		if (length + size <= buffer.length) {
+			return;
+		}
+		const next = new Uint8Array(Math.max(buffer.length * 2, length + size));
+		next.set(buffer.subarray(0, length));
+		buffer = next;
+	};
+
+	const byte = (value: number) => {
+		reserve(1);
+		buffer[length++] = value;
+	};
+
+	return {
+		byte,
+		bytes: (values) => {
+			reserve(values.length);
+			buffer.set(values, length);
+			length += values.length;
+		},
+		varint: (value) => {
+			// Math instead of bit operations to support values above 2^32
+			while (value >= 0x80) {
+				byte((value % 0x80) | 0x80);
+				value = Math.floor(value / 0x80);
+			}
+			byte(value);
+		},
+		toBytes: () => buffer.slice(0, length),
+		toArrayBuffer: () => buffer.buffer.slice(0, length),
+	};
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Protobuf wire types
+ */
+const VARINT = 0;
+const LENGTH_DELIMITED = 2;
+
+function writeTag(writer: ByteWriter, field: number, wireType: number) {
+	writer.varint(field * 8 + wireType);
+}
+
+function writeBytesField(writer: ByteWriter, field: number, value: Uint8Array) {
+	writeTag(writer, field, LENGTH_DELIMITED);
+	writer.varint(value.length);
+	writer.bytes(value);
+}
+
+function writeStringField(writer: ByteWriter, field: number, value: string) {
+	writeBytesField(writer, field, textEncoder.encode(value));
+}
+
+function writeMessageField(
+	writer: ByteWriter,
+	field: number,
+	encode: (writer: ByteWriter) => void,
+) {
+	const nested = createByteWriter();
+	encode(nested);
+	writeBytesField(writer, field, nested.toBytes());
+}
+
+/**
+ * Format stream labels as a Prometheus label set, e.g. {app="api", level="info"}
+ *
+ * @param labels
+ */
+export function formatLabelSet(labels: Record<string, string>): string {
+	const pairs = Object.keys(labels)
+		.sort()
+		.map(
+			(name) =>
+				`${name}="${labels[name]
+					.replace(/\\/g, "\\\\")
+					.replace(/"/g, '\\"')
+					.replace(/\n/g, "\\n")}"`,
+		);
+	return `{${pairs.join(", ")}}`;
+}
+
+/**
+ * Encode a Loki message as a logproto PushRequest:
+ *
+ * PushRequest { repeated StreamAdapter streams = 1; }
+ * StreamAdapter { string labels = 1; repeated EntryAdapter entries = 2; }
+ * EntryAdapter { Timestamp timestamp = 1; string line = 2;
+ *   repeated LabelPairAdapter structuredMetadata = 3; }
+ * LabelPairAdapter { string name = 1; string value = 2; }
+ * Timestamp { int64 seconds = 1; int32 nanos = 2; }
+ *
+ * @param lokiMessage
+ */
+export function encodePushRequest(lokiMessage: LokiMessage): Uint8Array {
+	const writer = createByteWriter();
+	for (const { stream, values } of lokiMessage.streams) {
+		writeMessageField(writer, 1, (streamWriter) => {
+			writeStringField(
+				streamWriter,
+				1,
+				formatLabelSet(stream as Record<string, string>),
+			);
+			for (const [timestamp, line, metadata] of values) {
+				writeMessageField(streamWriter, 2, (entryWriter) => {
+					writeMessageField(entryWriter, 1, (timestampWriter) => {
+						// Split the ns string to avoid losing precision above 2^53
+						const ns = timestamp.padStart(10, "0");
+						const seconds = Number(ns.slice(0, -9));
+						const nanos = Number(ns.slice(-9));
+						if (seconds) {
+							writeTag(timestampWriter, 1, VARINT);
+							timestampWriter.varint(seconds);
+						}
+						if (nanos) {
+							writeTag(timestampWriter, 2, VARINT);
+							timestampWriter.varint(nanos);
+						}
+					});
+					writeStringField(entryWriter, 2, line);
+					for (const [name, value] of Object.entries(metadata ?? {})) {
+						writeMessageField(entryWriter, 3, (pairWriter) => {
+							writeStringField(pairWriter, 1, name);
+							writeStringField(pairWriter, 2, value);
+						});
+					}
+				});
+			}
+		});
+	}
+	return writer.toBytes();
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Protobuf field as read from the wire
+ */
+type ProtoField = { field: number; value: number | Uint8Array };
+
+/**
+ * Read the varint and length-delimited fields of a protobuf message
+ *
+ * @param bytes
+ */
+function readFields(bytes: Uint8Array): ProtoField[] {
+	const fields: ProtoField[] = [];
+	let pos = 0;
+	const varint = () => {
+		let value = 0;
+		for (let shift = 0; ; shift += 7) {
+			if (pos >= bytes.length) {
+				throw new Error("Truncated protobuf message");
+			}
+			const byte = bytes[pos++];
+			value += (byte & 0x7f) * 2 ** shift;
+			if (byte < 0x80) {
+				return value;
+			}
+		}
+	};
+
+	while (pos < bytes.length) {
+		const tag = varint();
+		const field = Math.floor(tag / 8);
+		switch (tag % 8) {
+			case VARINT:
+				fields.push({ field, value: varint() });
+				break;
+			case LENGTH_DELIMITED: {
+				const length = varint();
+				if (pos + length > bytes.length) {
+					throw new Error("Truncated protobuf message");
+				}
+				fields.push({ field, value: bytes.subarray(pos, pos + length) });
+				pos += length;
+				break;
+			}
+			case 1: // 64-bit
+				pos += 8;
+				break;
+			case 5: // 32-bit
+				pos += 4;
+				break;
+			default:
+				throw new Error(`Unsupported protobuf wire type ${tag % 8}`);
+		}
+	}
+	return fields;
+}
+
+/**
+ * Parse a Prometheus label set, e.g. {app="api", level="info"}
+ *
+ * @param text
+ */
+export function parseLabelSet(text: string): Record<string, string> {
+	const labels: Record<string, string> = {};
+	for (const [, name, value] of text.matchAll(
+		/([a-zA-Z_][a-zA-Z0-9_]*)="((?:[^"\\]|\\.)*)"/g,
+	)) {
+		labels[name] = value.replace(/\\(.)/g, (_, char) =>
+			char === "n" ? "\n" : char,
+		);
+	}
+	return labels;
+}
+
+/**
+ * Decode a logproto PushRequest into a Loki message
+ *
+ * @param bytes
+ */
+export function decodePushRequest(bytes: Uint8Array): LokiMessage {
+	const streams: LokiMessage["streams"] = [];
+	for (const streamField of readFields(bytes)) {
+		if (streamField.field !== 1 || typeof streamField.value === "number") {
+			continue;
+		}
+		const stream: LokiMessage["streams"][number] = { stream: {}, values: [] };
+		for (const { field, value } of readFields(streamField.value)) {
+			if (typeof value === "number") {
+				continue;
+			}
+			if (field === 1) {
+				stream.stream = parseLabelSet(textDecoder.decode(value));
+			} else if (field === 2) {
+				stream.values.push(decodeEntry(value));
+			}
+		}
+		streams.push(stream);
+	}
+	return { streams };
+}
+
+function decodeEntry(bytes: Uint8Array): LokiValue {
+	let timestamp = "0";
+	let line = "";
+	const metadata: Record<string, string> = {};
+	for (const { field, value } of readFields(bytes)) {
+		if (typeof value === "number") {
+			continue;
+		}
+		if (field === 1) {
+			let seconds = 0;
+			let nanos = 0;
+			for (const part of readFields(value)) {
+				if (part.field === 1) {
+					seconds = part.value as number;
+				} else if (part.field === 2) {
+					nanos = part.value as number;
+				}
+			}
+			timestamp = seconds
+				? `${seconds}${String(nanos).padStart(9, "0")}`
+				: String(nanos);
+		} else if (field === 2) {
+			line = textDecoder.decode(value);
+		} else if (field === 3) {
+			const pair = readFields(value);
+			const text = (field: number) => {
+				const found = pair.find((p) => p.field === field)?.value;
+				return found instanceof Uint8Array ? textDecoder.decode(found) : "";
+			};
+			metadata[text(1)] = text(2);
+		}
+	}
+	return Object.keys(metadata).length > 0
+		? [timestamp, line, metadata]
+		: [timestamp, line];
+}
+
+/**
+ * Snappy compresses independent fragments so copy offsets fit in 2 bytes
+ */
+const SNAPPY_FRAGMENT_SIZE = 65536;
+const SNAPPY_HASH_BITS = 14;
+
+/**
+ * Compress data in the snappy block format (as expected by the Loki push API)
+ *
+ * @param input
+ */
+export function snappyCompress(input: Uint8Array): ArrayBuffer {
+	const writer = createByteWriter(32 + input.length + input.length / 6);
+	writer.varint(input.length);
+	const table = new Int32Array(1 << SNAPPY_HASH_BITS);
+	for (let start = 0; start < input.length; start += SNAPPY_FRAGMENT_SIZE) {
+		table.fill(-1);
+		compressFragment(
+			writer,
+			input,
+			start,
+			Math.min(start + SNAPPY_FRAGMENT_SIZE, input.length),
+			table,
+		);
+	}
+	return writer.toArrayBuffer();
+}
+
+function compressFragment(
+	writer: ByteWriter,
+	input: Uint8Array,
+	start: number,
+	end: number,
+	table: Int32Array,
+) {
+	let literalStart = start;
+	let i = start;
+	while (i + 4 <= end) {
+		const value = readUint32(input, i);
+		const hash = Math.imul(value, 0x1e35a7bd) >>> (32 - SNAPPY_HASH_BITS);
+		const candidate = table[hash];
+		table[hash] = i;
+		if (candidate < 0 || readUint32(input, candidate) !== value) {
+			i++;
+			continue;
+		}
+		let length = 4;
+		while (
+			i + length < end &&
+			input[i + length] === input[candidate + length]
+		) {
+			length++;
+		}
+		writeLiteral(writer, input, literalStart, i);
+		writeCopy(writer, i - candidate, length);
+		i += length;
+		literalStart = i;
+	}
+	writeLiteral(writer, input, literalStart, end);
+}
+
+function readUint32(input: Uint8Array, i: number): number {
+	return (
+		(input[i] |
+			(input[i + 1] << 8) |
+			(input[i + 2] << 16) |
+			(input[i + 3] << 24)) >>>
+		0
+	);
+}
+
+function writeLiteral(
+	writer: ByteWriter,
+	input: Uint8Array,
+	start: number,
+	end: number,
+) {
+	const length = end - start;
+	if (length === 0) {
+		return;
+	}
+	const n = length - 1;
+	if (n < 60) {
+		writer.byte(n << 2);
+	} else if (n < 0x100) {
+		writer.byte(60 << 2);
+		writer.byte(n);
+	} else {
+		// Fragments are at most 64KB
+		writer.byte(61 << 2);
+		writer.byte(n & 0xff);
+		writer.byte(n >> 8);
+	}
+	writer.bytes(input.subarray(start, end));
+}
+
+function writeCopy(writer: ByteWriter, offset: number, length: number) {
+	while (length >= 68) {
+		writeCopy2(writer, offset, 64);
+		length -= 64;
+	}
+	if (length > 64) {
+		writeCopy2(writer, offset, 60);
+		length -= 60;
+	}
+	if (length < 12 && offset < 2048) {
+		writer.byte(((offset >> 8) << 5) | ((length - 4) << 2) | 1);
+		writer.byte(offset & 0xff);
+	} else {
+		writeCopy2(writer, offset, length);
+	}
+}
+
+function writeCopy2(writer: ByteWriter, offset: number, length: number) {
+	writer.byte(((length - 1) << 2) | 2);
+	writer.byte(offset & 0xff);
+	writer.byte(offset >> 8);
+}
+
+/**
+ * Decompress data in the snappy block format
+ *
+ * @param input
+ */
+export function snappyUncompress(input: Uint8Array): Uint8Array {
+	let pos = 0;
+	let length = 0;
+	for (let shift = 0; ; shift += 7) {
+		const byte = input[pos++];
+		length += (byte & 0x7f) * 2 ** shift;
+		if (byte < 0x80) {
+			break;
+		}
+	}
+	const output = new Uint8Array(length);
+	let out = 0;
+	const readLittleEndian = (bytes: number) => {
+		let value = 0;
+		for (let i = 0; i < bytes; i++) {
+			value += input[pos++] * 256 ** i;
+		}
+		return value;
+	};
+
+	while (pos < input.length) {
+		const tag = input[pos++];
+		let size: number;
+		let offset: number;
+		switch (tag & 3) {
+			case 0:
+				size = (tag >> 2) + 1;
+				if (size > 60) {
+					size = readLittleEndian(size - 60) + 1;
+				}
+				if (pos + size > input.length || out + size > length) {
+					throw new Error("Invalid snappy data");
+				}
+				output.set(input.subarray(pos, pos + size), out);
+				pos += size;
+				out += size;
+				continue;
+			case 1:
+				size = ((tag >> 2) & 7) + 4;
+				offset = ((tag >> 5) << 8) | input[pos++];
+				break;
+			case 2:
+				size = (tag >> 2) + 1;
+				offset = readLittleEndian(2);
+				break;
+			default:
+				size = (tag >> 2) + 1;
+				offset = readLittleEndian(4);
+		}
+		if (offset === 0 || offset > out || out + size > length) {
+			throw new Error("Invalid snappy data");
+		}
+		for (let i = 0; i < size; i++, out++) {
+			output[out] = output[out - offset];
+		}
+	}
+	if (out !== length) {
+		throw new Error("Invalid snappy data");
+	}
+	return output;
+}
+
+/**
+ * Compress a string with gzip using the runtime's CompressionStream
+ *
+ * @param input
+ */
+export async function gzip(input: string): Promise<ArrayBuffer> {
+	if (typeof CompressionStream === "undefined") {
+		throw new Error("CompressionStream is not available for gzip encoding");
+	}
+	const stream = new Blob([input])
+		.stream()
+		.pipeThrough(new CompressionStream("gzip"));
+	return new Response(stream).arrayBuffer();
+}
+
+/**
+ * Decompress gzip data into a string using the runtime's DecompressionStream
+ *
+ * @param input
+ */
+export async function gunzip(input: ArrayBuffer): Promise<string> {
+	if (typeof DecompressionStream === "undefined") {
+		throw new Error("DecompressionStream is not available for gzip decoding");
+	}
+	const stream = new Blob([input])
+		.stream()
+		.pipeThrough(new DecompressionStream("gzip"));
+	return new Response(stream).text();
+}
@@ -0,0 +1,27 @@
+/**
+ * Get environment variable from various sources
+ */
+export function getEnv(name: string): string | undefined {
+	try {
+		// Node.js
+		if (typeof process !== "undefined" && process.env) {
+			return process.env[name];
+		}
+		// Global
+		if (typeof globalThis !== "undefined") {
+			const global = globalThis as unknown as Record<
+				string,
+				string | undefined
+			>;
+			return global[name];
+		}
+	} catch (_e) {}
+	return undefined;
+}
+
+/**
+ * Check if running in a development environment
+ */
+export function isDevEnv(): boolean {
+	return getEnv("NODE_ENV") === "development" || getEnv("WORKER_ENV") === "dev";
+}
@@ -0,0 +1,330 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	createFallbackRecord,
+	durableObjectFallbackStore,
+	type KVNamespaceLike,
+	kvFallbackStore,
+	memoryFallbackStore,
+	queueFallbackStore,
+} from "./fallback";
+import { getLokiLogger } from "./logger";
+import { type LokiMessage, lokiTransport, replayLokiFallback } from "./loki";
+
+const lokiMessage = (line: string): LokiMessage => ({
+	streams: [{ stream: { level: "info" }, values: [["1000000", line]] }],
+});
+
+const mockFetch = (...statuses: number[]) => {
+	const fetchMock = vi.fn(
+		async (_url: string, _init: { body: string }) =>
+			new Response(null, { status: statuses.shift() ?? 204 }),
+	);
+	global.fetch = fetchMock as unknown as typeof fetch;
+	return fetchMock;
+};
+
+const pushedLines = (fetchMock: ReturnType<typeof mockFetch>) =>
+	fetchMock.mock.calls.map(
+		([, init]) => JSON.parse(init.body).streams[0].values[0][1],
+	);
+
+describe("Fallback", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should persist undeliverable messages with their timestamps", async () => {
+		vi.spyOn(Date, "now").mockReturnValue(1700000000000);
+		mockFetch(503);
+		const store = memoryFallbackStore();
+		const onSendError = vi.fn();
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					structuredMetadataKeys: [],
+					fallback: { store },
+					onSendError,
+				}),
+			],
+		});
+		await logger.info("lost");
+
+		expect(store.records).toHaveLength(1);
+		expect(store.records[0]).toMatchObject({
+			createdAt: 1700000000000,
+			payload: {
+				streams: [{ values: [["1700000000000000000", '{"message":"lost"}']] }],
+			},
+		});
+		expect(onSendError).toHaveBeenCalledWith(
+			expect.objectContaining({ status: 503 }),
+			store.records[0].payload,
+		);
+	});
+
+	it("should replay records oldest first and remove delivered ones", async () => {
+		const fetchMock = mockFetch();
+		const store = memoryFallbackStore();
+		const now = Date.now();
+		const second = createFallbackRecord(lokiMessage("second"), now - 1000);
+		const first = createFallbackRecord(lokiMessage("first"), now - 2000);
+		await store.save(second);
+		await store.save(first);
+
+		const result = await replayLokiFallback({
+			lokiUrl: "http://loki",
+			fallback: { store },
+		});
+
+		expect(pushedLines(fetchMock)).toEqual(["first", "second"]);
+		expect(result).toEqual({
+			delivered: [first.id, second.id],
+			dropped: [],
+			rejected: [],
+			failed: [],
+		});
+		expect(store.records).toEqual([]);
+	});
+
+	it("should stop at the first failure to keep the order", async () => {
+		const fetchMock = mockFetch(204, 500);
+		const store = memoryFallbackStore();
+		const now = Date.now();
+		const records = ["a", "b", "c"].map((line, i) =>
+			createFallbackRecord(lokiMessage(line), now - 3000 + i),
+		);
+		for (const record of records) {
+			await store.save(record);
+		}
+
+		const result = await replayLokiFallback({
+			lokiUrl: "http://loki",
+			fallback: { store },
+		});
+
+		expect(pushedLines(fetchMock)).toEqual(["a", "b"]);
+		expect(result.failed).toEqual([records[1].id, records[2].id]);
+		expect(store.records.map((record) => record.id)).toEqual(result.failed);
+	});
+
+	it("should skip and remove records Loki rejects", async () => {
+		const fetchMock = mockFetch(204, 400, 204);
+		const store = memoryFallbackStore();
+		const now = Date.now();
+		const records = ["a", "too old", "c"].map((line, i) =>
+			createFallbackRecord(lokiMessage(line), now - 3000 + i),
+		);
+		for (const record of records) {
+			await store.save(record);
+		}
+
+		const result = await replayLokiFallback({
+			lokiUrl: "http://loki",
+			retries: 2,
+			fallback: { store },
+		});
+
+		expect(pushedLines(fetchMock)).toEqual(["a", "too old", "c"]);
+		expect(result).toMatchObject({
+			delivered: [records[0].id, records[2].id],
+			rejected: [records[1].id],
+			failed: [],
+		});
+		expect(store.records).toEqual([]);
+	});
+
+	it("should not persist pushes Loki rejects", async () => {
+		mockFetch(400);
+		const store = memoryFallbackStore();
+		const onSendError = vi.fn();
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					fallback: { store },
+					onSendError,
+				}),
+			],
+		});
+		await logger.info("out of order");
+
+		expect(store.records).toEqual([]);
+		expect(onSendError).toHaveBeenCalledWith(
+			expect.objectContaining({ status: 400 }),
+			expect.anything(),
+		);
+	});
+
+	it("should drop expired records and records over the cap", async () => {
+		const fetchMock = mockFetch();
+		const store = memoryFallbackStore();
+		const now = Date.now();
+		const expired = createFallbackRecord(lokiMessage("expired"), now - 7000);
+		const oldest = createFallbackRecord(lokiMessage("oldest"), now - 3000);
+		const newer = createFallbackRecord(lokiMessage("newer"), now - 2000);
+		const newest = createFallbackRecord(lokiMessage("newest"), now - 1000);
+		for (const record of [expired, oldest, newer, newest]) {
+			await store.save(record);
+		}
+
+		const result = await replayLokiFallback({
+			lokiUrl: "http://loki",
+			fallback: { store, maxAgeMs: 5000, maxRecords: 2 },
+		});
+
+		expect(pushedLines(fetchMock)).toEqual(["newer", "newest"]);
+		expect(result.dropped).toEqual([expired.id, oldest.id]);
+		expect(store.records).toEqual([]);
+	});
+
+	it("should cap the memory store", async () => {
+		const store = memoryFallbackStore({ maxRecords: 2 });
+		for (const line of ["a", "b", "c"]) {
+			await store.save(createFallbackRecord(lokiMessage(line)));
+		}
+
+		expect(
+			store.records.map((record) => record.payload.streams[0].values[0][1]),
+		).toEqual(["b", "c"]);
+	});
+});
+
+describe("Fallback stores", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should store records in KV with a TTL and list them across pages", async () => {
+		const data = new Map<string, string>();
+		const put = vi.fn(async (key: string, value: string) => {
+			data.set(key, value);
+		});
+		const kv: KVNamespaceLike = {
+			get: async (key) => JSON.parse(data.get(key) ?? "null"),
+			put,
+			delete: async (key) => {
+				data.delete(key);
+			},
+			list: async ({ prefix = "", cursor } = {}) => {
+				const names = Array.from(data.keys())
+					.filter((name) => name.startsWith(prefix))
+					.sort();
+				const start = Number(cursor ?? 0);
+				return {
+					keys: names.slice(start, start + 1).map((name) => ({ name })),
+					list_complete: start + 1 >= names.length,
+					cursor: String(start + 1),
+				};
+			},
+		};
+		const store = kvFallbackStore(kv, { maxAgeMs: 3600000 });
+		const records = [1000, 2000].map((time) =>
+			createFallbackRecord(lokiMessage(String(time)), time),
+		);
+		await store.save(records[1]);
+		await store.save(records[0]);
+
+		expect(put).toHaveBeenCalledWith(
+			`cloki:fallback:${records[1].id}`,
+			JSON.stringify(records[1]),
+			{ expirationTtl: 3600 },
+		);
+		expect(await store.load?.()).toEqual(records);
+		await store.remove?.([records[0].id]);
+		expect(await store.load?.()).toEqual([records[1]]);
+	});
+
+	const durableObjectStorage = () => {
+		const data = new Map<string, unknown>();
+		return {
+			data,
+			put: async (key: string, value: unknown) => {
+				data.set(key, value);
+			},
+			delete: vi.fn(async (keys: string[]) => {
+				if (keys.length > 128) {
+					throw new Error("Maximum number of keys is 128");
+				}
+				return keys.filter((key) => data.delete(key)).length;
+			}),
+			list: vi.fn(
+				async ({
+					prefix = "",
+					limit,
+				}: {
+					prefix?: string;
+					limit?: number;
+				} = {}) =>
+					new Map(
+						Array.from(data.entries())
+							.filter(([key]) => key.startsWith(prefix))
+							.sort(([a], [b]) => (a < b ? -1 : 1))
+							.slice(0, limit),
+					),
+			),
+		};
+	};
+
+	it("should store records in Durable Object storage with a cap", async () => {
+		const storage = durableObjectStorage();
+		const store = durableObjectFallbackStore(storage, { maxRecords: 2 });
+		const records = [3000, 1000, 2000, 4000].map((time) =>
+			createFallbackRecord(lokiMessage(String(time)), time),
+		);
+		for (const record of records) {
+			await store.save(record);
+		}
+
+		expect(await store.load?.()).toEqual([records[0], records[3]]);
+		// Counted once, then only the oldest keys are listed
+		expect(storage.list.mock.calls).toEqual([
+			[{ prefix: "cloki:fallback:" }],
+			[{ prefix: "cloki:fallback:", limit: 1 }],
+			[{ prefix: "cloki:fallback:", limit: 1 }],
+			[{ prefix: "cloki:fallback:" }],
+		]);
+	});
+
+	it("should remove Durable Object records in chunks of 128 keys", async () => {
+		const storage = durableObjectStorage();
+		const store = durableObjectFallbackStore(storage);
+		const records = Array.from({ length: 300 }, (_, i) =>
+			createFallbackRecord(lokiMessage(String(i)), 1000 + i),
+		);
+		for (const record of records) {
+			await store.save(record);
+		}
+		await store.remove?.(records.map((record) => record.id));
+
+		expect(storage.data.size).toBe(0);
+		expect(storage.delete.mock.calls.map(([keys]) => keys.length)).toEqual([
+			128, 128, 44,
+		]);
+	});
+
+	it("should send records to a Queue and replay them in the consumer", async () => {
+		const fetchMock = mockFetch();
+		const send = vi.fn(async () => {});
+		const store = queueFallbackStore({ send });
+		const record = createFallbackRecord(lokiMessage("queued"));
+		await store.save(record);
+
+		expect(send).toHaveBeenCalledWith(record);
+		const result = await replayLokiFallback(
+			{ lokiUrl: "http://loki", fallback: { store } },
+			[record],
+		);
+		expect(result.delivered).toEqual([record.id]);
+		expect(pushedLines(fetchMock)).toEqual(["queued"]);
+	});
+
+	it("should require records for stores that cannot be loaded", async () => {
+		await expect(
+			replayLokiFallback({
+				lokiUrl: "http://loki",
+				fallback: { store: queueFallbackStore({ send: async () => {} }) },
+			}),
+		).rejects.toThrow("Loki fallback store cannot be loaded");
+	});
+});
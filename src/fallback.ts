@@ -0,0 +1,251 @@
+import type { LokiMessage } from "./loki";
+
+/**
+ * Undeliverable payload persisted for a later replay
+ */
+export type FallbackRecord<P = LokiMessage> = {
+	/**
+	 * Sortable by creation time
+	 */
+	id: string;
+	/**
+	 * Unix time in ms
+	 */
+	createdAt: number;
+	payload: P;
+};
+
+/**
+ * Storage for undeliverable payloads.
+ * Stores without load/remove (e.g. a Queue producer) are replayed by their consumer.
+ */
+export type FallbackStore<P = LokiMessage> = {
+	save: (record: FallbackRecord<P>) => Promise<void>;
+	/**
+	 * All records, oldest first
+	 */
+	load?: () => Promise<FallbackRecord<P>[]>;
+	remove?: (ids: string[]) => Promise<void>;
+};
+
+/**
+ * Fallback config
+ */
+export type FallbackConfig<P = LokiMessage> = {
+	store: FallbackStore<P>;
+	/**
+	 * Records older than this are dropped instead of replayed (default: 24h)
+	 */
+	maxAgeMs?: number;
+	/**
+	 * Maximum number of records kept, the oldest are dropped (default: 1000)
+	 */
+	maxRecords?: number;
+};
+
+export const DEFAULT_FALLBACK_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_FALLBACK_MAX_RECORDS = 1000;
+
+/**
+ * Create a record for a payload
+ *
+ * @param payload
+ * @param now
+ */
+export function createFallbackRecord<P>(
+	payload: P,
+	now = Date.now(),
+): FallbackRecord<P> {
+	const random = Math.floor(Math.random() * 0x100000000)
+		.toString(16)
+		.padStart(8, "0");
+	return {
+		id: `${now.toString().padStart(13, "0")}-${random}`,
+		createdAt: now,
+		payload,
+	};
+}
+
+/**
+ * In-memory store, for tests or a single long-lived isolate
+ *
+ * @param options
+ */
+export const memoryFallbackStore = <P = LokiMessage>(
+	options: { maxRecords?: number } = {},
+): FallbackStore<P> & { records: FallbackRecord<P>[] } => {
+	const maxRecords = options.maxRecords ?? DEFAULT_FALLBACK_MAX_RECORDS;
+	const records: FallbackRecord<P>[] = [];
+	return {
+		records,
+		save: async (record) => {
+			records.push(record);
+			if (records.length > maxRecords) {
+				records.splice(0, records.length - maxRecords);
+			}
+		},
+		load: async () => [...records],
+		remove: async (ids) => {
+			for (let i = records.length - 1; i >= 0; i--) {
+				if (ids.includes(records[i].id)) {
+					records.splice(i, 1);
+				}
+			}
+		},
+	};
+};
+
+/**
+ * Cloudflare Workers KV namespace
+ */
+export type KVNamespaceLike = {
+	get: (key: string, type: "json") => Promise<unknown>;
+	put: (
+		key: string,
+		value: string,
+		options?: { expirationTtl?: number },
+	) => Promise<void>;
+	delete: (key: string) => Promise<void>;
+	list: (options?: { prefix?: string; cursor?: string }) => Promise<{
+		keys: { name: string }[];
+		list_complete: boolean;
+		cursor?: string;
+	}>;
+};
+
+/**
+ * Store records as KV keys that expire after maxAgeMs.
+ * KV listing is eventually consistent, so new records may be replayed late.
+ *
+ * @param kv
+ * @param options
+ */
+export const kvFallbackStore = <P = LokiMessage>(
+	kv: KVNamespaceLike,
+	options: { prefix?: string; maxAgeMs?: number } = {},
+): FallbackStore<P> => {
+	const prefix = options.prefix ?? "cloki:fallback:";
+	// KV requires a TTL of at least 60 seconds
+	const expirationTtl = Math.max(
+		60,
+		Math.ceil((options.maxAgeMs ?? DEFAULT_FALLBACK_MAX_AGE_MS) / 1000),
+	);
+	return {
+		save: (record) =>
+			kv.put(`${prefix}${record.id}`, JSON.stringify(record), {
+				expirationTtl,
+			}),
+		load: async () => {
+			const records: FallbackRecord<P>[] = [];
+			let cursor: string | undefined;
+			do {
+				const page = await kv.list({ prefix, cursor });
+				for (const { name } of page.keys) {
+					const record = (await kv.get(
+						name,
+						"json",
+					)) as FallbackRecord<P> | null;
+					if (record) {
+						records.push(record);
+					}
+				}
+				cursor = page.list_complete ? undefined : page.cursor;
+			} while (cursor);
+			return records;
+		},
+		remove: async (ids) => {
+			await Promise.all(ids.map((id) => kv.delete(`${prefix}${id}`)));
+		},
+	};
+};
+
+/**
+ * Cloudflare Queue producer binding
+ */
+export type QueueProducerLike = {
+	send: (body: unknown) => Promise<void>;
+};
+
+/**
+ * Send records to a Queue. Replay them in the queue consumer with
+ * replayLokiFallback(config, records)
+ *
+ * @param queue
+ */
+export const queueFallbackStore = <P = LokiMessage>(
+	queue: QueueProducerLike,
+): FallbackStore<P> => ({
+	save: (record) => queue.send(record),
+});
+
+/**
+ * Durable Object storage (state.storage)
+ */
+export type DurableObjectStorageLike = {
+	put: (key: string, value: unknown) => Promise<void>;
+	delete: (keys: string[]) => Promise<number>;
+	list: (options?: {
+		prefix?: string;
+		limit?: number;
+	}) => Promise<Map<string, unknown>>;
+};
+
+/**
+ * Maximum number of keys of one Durable Object storage.delete call
+ */
+const DURABLE_OBJECT_DELETE_LIMIT = 128;
+
+/**
+ * Store records in the storage of a Durable Object.
+ * Strongly consistent, so concurrent invocations share one ordered backlog.
+ * The number of records is counted once and then tracked by the store,
+ * so create one store per Durable Object.
+ *
+ * @param storage
+ * @param options
+ */
+export const durableObjectFallbackStore = <P = LokiMessage>(
+	storage: DurableObjectStorageLike,
+	options: { prefix?: string; maxRecords?: number } = {},
+): FallbackStore<P> => {
+	const prefix = options.prefix ?? "cloki:fallback:";
+	const maxRecords = options.maxRecords ?? DEFAULT_FALLBACK_MAX_RECORDS;
+	let count: number | undefined;
+
+	const deleteKeys = async (keys: string[]): Promise<void> => {
+		for (let i = 0; i < keys.length; i += DURABLE_OBJECT_DELETE_LIMIT) {
+			const deleted = await storage.delete(
+				keys.slice(i, i + DURABLE_OBJECT_DELETE_LIMIT),
+			);
+			if (count !== undefined) {
+				count -= deleted;
+			}
+		}
+	};
+
+	return {
+		save: async (record) => {
+			if (count === undefined) {
+				count = (await storage.list({ prefix })).size;
+			}
+			await storage.put(`${prefix}${record.id}`, record);
+			count++;
+			if (count > maxRecords) {
+				// list() returns keys in order, so the first keys are the oldest
+				const oldest = await storage.list({
+					prefix,
+					limit: count - maxRecords,
+				});
+				await deleteKeys(Array.from(oldest.keys()));
+			}
+		},
+		load: async () => {
+			const records = await storage.list({ prefix });
+			count = records.size;
+			return Array.from(records.values()) as FallbackRecord<P>[];
+		},
+		remove: async (ids) => {
+			await deleteKeys(ids.map((id) => `${prefix}${id}`));
+		},
+	};
+};
@@ -0,0 +1,34 @@
+/**
+ * fetch-compatible function
+ */
+export type FetchLike = (input: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Object with a fetch method, e.g. a Cloudflare service binding
+ */
+export type FetcherLike = {
+	fetch: FetchLike;
+};
+
+/**
+ * Call fetch through a custom fetch function or service binding,
+ * falling back to the global fetch
+ *
+ * @param fetcher
+ * @param input
+ * @param init
+ */
+export function fetchWith(
+	fetcher: FetchLike | FetcherLike | undefined,
+	input: string,
+	init: RequestInit,
+): Promise<Response> {
+	if (!fetcher) {
+		return fetch(input, init);
+	}
+	if (typeof fetcher === "function") {
+		return fetcher(input, init);
+	}
+	// Keep `this` bound, service bindings throw otherwise
+	return fetcher.fetch(input, init);
+}
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getLokiLogger } from "./logger";
+import { type ConsoleFormat, consoleTransport } from "./transports";
+
+describe("Console formats", () => {
+	let logSpy: ReturnType<typeof vi.spyOn>;
+
+	const logWith = async (
+		format: ConsoleFormat,
+		colors = false,
+		message: object = { message: "Started", port: 8080 },
+	) => {
+		const logger = getLokiLogger({
+			transports: [consoleTransport({ format, colors })],
+			defaultLabels: { app: "api" },
+		});
+		await logger.info(message);
+		return logSpy.mock.calls[0][0];
+	};
+
+	beforeEach(() => {
+		vi.spyOn(Date, "now").mockReturnValue(Date.UTC(2024, 0, 1));
+		logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllEnvs();
+	});
+
+	it("should print pretty lines with time, level and labels", async () => {
+		expect(await logWith("pretty")).toBe(
+			'2024-01-01T00:00:00.000Z INFO  Started {"port":8080} app=api',
+		);
+	});
+
+	it("should colorize pretty lines when enabled", async () => {
+		expect(await logWith("pretty", true)).toBe(
+			'\x1b[2m2024-01-01T00:00:00.000Z\x1b[0m \x1b[32mINFO \x1b[0m Started {"port":8080} \x1b[2mapp=api\x1b[0m',
+		);
+	});
+
+	it("should print logfmt", async () => {
+		expect(
+			await logWith("logfmt", false, {
+				message: "User logged in",
+				user: { id: 1 },
+				empty: "",
+			}),
+		).toBe(
+			'time=2024-01-01T00:00:00.000Z level=info msg="User logged in" app=api user="{\\"id\\":1}" empty=""',
+		);
+	});
+
+	it("should print single-line JSON with level and labels", async () => {
+		expect(JSON.parse(await logWith("json"))).toEqual({
+			time: "2024-01-01T00:00:00.000Z",
+			level: "info",
+			message: "Started",
+			port: 8080,
+			labels: { app: "api" },
+		});
+	});
+
+	it("should keep time, level and labels over message fields in JSON", async () => {
+		const line = await logWith("json", false, {
+			message: "Job done",
+			level: "verbose",
+			time: "yesterday",
+			labels: "none",
+		});
+
+		expect(
+			line.startsWith('{"time":"2024-01-01T00:00:00.000Z","level":"info"'),
+		).toBe(true);
+		expect(JSON.parse(line)).toEqual({
+			time: "2024-01-01T00:00:00.000Z",
+			level: "info",
+			message: "Job done",
+			labels: { app: "api" },
+		});
+	});
+
+	it("should print Elastic Common Schema", async () => {
+		const logger = getLokiLogger({
+			transports: [consoleTransport({ format: "ecs" })],
+		});
+		const error = new TypeError("boom");
+		await logger.error(
+			{ message: "Failed", error },
+			{ app: "api", trace_id: "abc", span_id: "def" },
+		);
+
+		expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual({
+			"@timestamp": "2024-01-01T00:00:00.000Z",
+			"log.level": "error",
+			message: "Failed",
+			"ecs.version": "8.11.0",
+			error: { type: "TypeError", message: "boom", stack_trace: error.stack },
+			trace: { id: "abc" },
+			span: { id: "def" },
+			labels: { app: "api" },
+		});
+	});
+
+	it("should map serialized errors to ECS when redaction is on", async () => {
+		const logger = getLokiLogger({
+			transports: [consoleTransport({ format: "ecs" })],
+			redact: { paths: ["password"] },
+		});
+		const error = new TypeError("boom");
+		await logger.error({ message: "Failed", error, password: "secret" });
+
+		expect(JSON.parse(logSpy.mock.calls[0][0])).toMatchObject({
+			message: "Failed",
+			password: "[REDACTED]",
+			error: { type: "TypeError", message: "boom", stack_trace: error.stack },
+		});
+		expect(JSON.parse(logSpy.mock.calls[0][0]).error).not.toHaveProperty(
+			"name",
+		);
+	});
+
+	it.each([
+		["NO_COLOR", { NO_COLOR: "1", FORCE_COLOR: "1" }, false],
+		["FORCE_COLOR", { NO_COLOR: "", FORCE_COLOR: "1" }, true],
+	])("should detect colors with %s", async (_name, env, colored) => {
+		for (const [key, value] of Object.entries(env)) {
+			vi.stubEnv(key, value);
+		}
+		const logger = getLokiLogger({
+			transports: [consoleTransport({ format: "pretty" })],
+		});
+		await logger.warn("x");
+
+		expect(logSpy.mock.calls[0][0].includes("\x1b[")).toBe(colored);
+	});
+
+	it("should configure or turn off the default console transport", async () => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+		await getLokiLogger({
+			lokiUrl: "http://loki",
+			console: { format: "logfmt" },
+		}).info("on");
+		await getLokiLogger({ lokiUrl: "http://loki", console: false }).info("off");
+
+		expect(logSpy).toHaveBeenCalledTimes(1);
+		expect(logSpy.mock.calls[0][0]).toContain("level=info msg=on");
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+});
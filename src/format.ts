@@ -0,0 +1,207 @@
+import { getEnv } from "./env";
+import { LOG_LEVEL_COLORS } from "./levels";
+import { isError, safeStringify, toSerializable } from "./serialize";
+import type { ConsoleFormat, LogEntry } from "./transports";
+
+const COLOR_RESET = "\x1b[0m";
+const COLOR_DIM = "\x1b[2m";
+
+/**
+ * ECS version written to ecs.version
+ */
+const ECS_VERSION = "8.11.0";
+
+/**
+ * Check if ANSI colors should be used: off with NO_COLOR, on with
+ * FORCE_COLOR, otherwise only when stdout is a TTY
+ */
+export function supportsColor(): boolean {
+	if (getEnv("NO_COLOR")) {
+		return false;
+	}
+	if (getEnv("FORCE_COLOR")) {
+		return true;
+	}
+	return typeof process !== "undefined" && Boolean(process.stdout?.isTTY);
+}
+
+/**
+ * Wrap text in an ANSI color
+ *
+ * @param text
+ * @param color
+ * @param colors whether colors are enabled
+ */
+export function colorize(text: string, color: string, colors: boolean): string {
+	return colors && color ? `${color}${text}${COLOR_RESET}` : text;
+}
+
+/**
+ * Format an entry as a single console line
+ *
+ * @param format
+ * @param entry
+ * @param colors
+ */
+export function formatConsoleLine<T extends string>(
+	format: ConsoleFormat,
+	entry: LogEntry<T>,
+	colors: boolean,
+): string {
+	switch (format) {
+		case "pretty":
+			return formatPretty(entry, colors);
+		case "logfmt":
+			return formatLogfmt(entry);
+		case "json": {
+			const head = {
+				time: new Date(entry.timestamp).toISOString(),
+				level: entry.level,
+			};
+			// time, level and labels stay first and win over message fields
+			return safeStringify(
+				Object.assign(
+					{ ...head },
+					Array.isArray(entry.message)
+						? { items: entry.message }
+						: entry.message,
+					{ ...head, labels: entry.labels },
+				),
+			);
+		}
+		case "ecs":
+			return safeStringify(toEcs(entry));
+	}
+}
+
+/**
+ * Split a message object into its message text and other fields
+ *
+ * @param message
+ */
+function splitMessage(message: object): {
+	text: string;
+	fields: Record<string, unknown>;
+} {
+	if (Array.isArray(message)) {
+		return { text: "", fields: { items: message } };
+	}
+	const { message: text, ...fields } = message as Record<string, unknown>;
+	return {
+		text: text === undefined ? "" : String(text),
+		fields,
+	};
+}
+
+/**
+ * 2024-01-01T00:00:00.000Z INFO  Started {"port":8080} app=api
+ */
+function formatPretty<T extends string>(
+	entry: LogEntry<T>,
+	colors: boolean,
+): string {
+	const { text, fields } = splitMessage(entry.message);
+	const parts = [
+		colorize(new Date(entry.timestamp).toISOString(), COLOR_DIM, colors),
+		colorize(
+			entry.level.toUpperCase().padEnd(5),
+			LOG_LEVEL_COLORS[entry.level] ?? "",
+			colors,
+		),
+	];
+	if (text) {
+		parts.push(text);
+	}
+	if (Object.keys(fields).length > 0) {
+		parts.push(safeStringify(fields));
+	}
+	const labels = Object.entries(entry.labels).map(
+		([key, value]) => `${key}=${value}`,
+	);
+	if (labels.length > 0) {
+		parts.push(colorize(labels.join(" "), COLOR_DIM, colors));
+	}
+	return parts.join(" ");
+}
+
+/**
+ * time=2024-01-01T00:00:00.000Z level=info msg=Started app=api port=8080
+ */
+function formatLogfmt<T extends string>(entry: LogEntry<T>): string {
+	const { text, fields } = splitMessage(entry.message);
+	const pairs: [string, unknown][] = [
+		["time", new Date(entry.timestamp).toISOString()],
+		["level", entry.level],
+		["msg", text],
+		...Object.entries(entry.labels),
+		...Object.entries(fields),
+	];
+	return pairs
+		.map(([key, value]) => `${key}=${formatLogfmtValue(value)}`)
+		.join(" ");
+}
+
+function formatLogfmtValue(value: unknown): string {
+	const text = typeof value === "string" ? value : safeStringify(value);
+	return text === "" || /[\s"=\\]/.test(text) ? JSON.stringify(text) : text;
+}
+
+/**
+ * Convert an entry to Elastic Common Schema fields
+ *
+ * @param entry
+ */
+function toEcs<T extends string>(entry: LogEntry<T>): Record<string, unknown> {
+	const { text, fields } = splitMessage(entry.message);
+	const { trace_id, span_id, ...labels } = entry.labels as Record<
+		string,
+		string
+	>;
+	const { error, ...rest } = fields;
+	const ecs: Record<string, unknown> = {
+		"@timestamp": new Date(entry.timestamp).toISOString(),
+		"log.level": entry.level,
+		message: text,
+		"ecs.version": ECS_VERSION,
+		...rest,
+	};
+	if (error !== undefined) {
+		ecs.error = toEcsError(error);
+	}
+	if (trace_id) {
+		ecs.trace = { id: trace_id };
+	}
+	if (span_id) {
+		ecs.span = { id: span_id };
+	}
+	if (Object.keys(labels).length > 0) {
+		ecs.labels = labels;
+	}
+	return ecs;
+}
+
+/**
+ * Map an Error, or an Error already serialized to { name, message, stack }
+ * e.g. by redaction, to ECS error fields
+ *
+ * @param error
+ */
+function toEcsError(error: unknown): unknown {
+	const serialized = isError(error) ? toSerializable(error) : error;
+	if (
+		!serialized ||
+		typeof (serialized as { message?: unknown }).message !== "string"
+	) {
+		return error;
+	}
+	const { name, message, stack, ...rest } = serialized as Record<
+		string,
+		unknown
+	>;
+	return {
+		...(typeof name === "string" ? { type: name } : {}),
+		message,
+		...(typeof stack === "string" ? { stack_trace: stack } : {}),
+		...rest,
+	};
+}
@@ -1 +1,22 @@
+export * from "./capture";
+export * from "./context";
+export * from "./fallback";
+export type { FetcherLike, FetchLike } from "./fetch";
+export * from "./labels";
+export * from "./levels";
 export * from "./logger";
+export * from "./loki";
+export * from "./middleware";
+export * from "./otlp";
+export * from "./query";
+export * from "./redact";
+export {
+	type CircuitBreakerConfig,
+	CircuitOpenError,
+	type RetryPolicy,
+} from "./retry";
+export * from "./sampling";
+export * from "./serialize";
+export * from "./tail";
+export * from "./trace";
+export * from "./transports";
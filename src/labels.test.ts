@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	applyLabelKeys,
+	createLabelGuard,
+	sanitizeLabelKey,
+	sanitizeLabels,
+} from "./labels";
+import { getLokiLogger } from "./logger";
+import { lokiTransport } from "./loki";
+
+describe("Label sanitization", () => {
+	it.each([
+		["http_status", "http_status"],
+		["http-status", "http_status"],
+		["user.id", "user_id"],
+		["2xx", "_2xx"],
+		["", "_"],
+	])("should normalize %s to %s", (key, expected) => {
+		expect(sanitizeLabelKey(key)).toBe(expected);
+	});
+
+	it("should keep both values of keys sanitized to the same name", () => {
+		expect(
+			sanitizeLabels({
+				"http-status": "200",
+				http_status: "500",
+				"http.status": "404",
+				http_status_2: "302",
+			}),
+		).toEqual({
+			http_status: "500",
+			http_status_2: "302",
+			http_status_3: "200",
+			http_status_4: "404",
+		});
+	});
+
+	it("should truncate overlong values", () => {
+		expect(sanitizeLabels({ "x-long": "abcdef" }, 3)).toEqual({
+			x_long: "abc",
+		});
+	});
+});
+
+describe("createLabelGuard", () => {
+	it("should move labels over maxLabels into the line", () => {
+		const guard = createLabelGuard({ maxLabels: 2 });
+
+		expect(guard({ app: "api", env: "prod", level: "info" })).toEqual({
+			labels: { level: "info", app: "api" },
+			demoted: { env: "prod" },
+		});
+	});
+
+	it("should demote labels exceeding maxCardinality once", () => {
+		const onDemote = vi.fn();
+		const guard = createLabelGuard({ maxCardinality: 2, onDemote });
+
+		expect(guard({ level: "info", user: "a" }).labels).toHaveProperty("user");
+		expect(guard({ level: "info", user: "b" }).labels).toHaveProperty("user");
+		expect(guard({ level: "info", user: "a" }).labels).toHaveProperty("user");
+		expect(guard({ level: "info", user: "c" })).toEqual({
+			labels: { level: "info" },
+			demoted: { user: "c" },
+		});
+		// A known value is demoted too once the label is over the limit
+		expect(guard({ level: "info", user: "a" }).demoted).toEqual({ user: "a" });
+		expect(onDemote).toHaveBeenCalledTimes(1);
+		expect(onDemote).toHaveBeenCalledWith("user", 3);
+	});
+});
+
+describe("Label limits in the Loki transport", () => {
+	const pushedStreams = () =>
+		(
+			fetch as unknown as { mock: { calls: [string, { body: string }][] } }
+		).mock.calls.map(([, init]) => JSON.parse(init.body).streams[0]);
+
+	beforeEach(() => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should always normalize label keys", async () => {
+		const logger = getLokiLogger({
+			transports: [lokiTransport({ lokiUrl: "http://loki" })],
+		});
+		await logger.info("test", { "http-status": "200" });
+
+		expect(pushedStreams()[0].stream).toEqual({
+			level: "info",
+			http_status: "200",
+		});
+	});
+
+	it("should track cardinality across loggers", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		// A new logger per request, like withLogger or runWithLogger
+		const requestLogger = () =>
+			getLokiLogger({
+				lokiUrl: "http://cardinality-loki",
+				console: false,
+				labelLimits: { maxCardinality: 2 },
+			});
+		for (const user of ["1", "2", "3"]) {
+			await requestLogger().info("login", { user_id: user });
+		}
+
+		expect(pushedStreams().map(({ stream }) => stream.user_id)).toEqual([
+			"1",
+			"2",
+			undefined,
+		]);
+	});
+
+	it("should warn and move high-cardinality labels into the line", async () => {
+		const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					labelLimits: { maxCardinality: 1 },
+				}),
+			],
+		});
+		await logger.info("first", { user_id: "1" });
+		await logger.info("second", { user_id: "2" });
+
+		const streams = pushedStreams();
+		expect(streams[0].stream).toEqual({ level: "info", user_id: "1" });
+		expect(streams[1].stream).toEqual({ level: "info" });
+		expect(JSON.parse(streams[1].values[0][1])).toEqual({
+			user_id: "2",
+			message: "second",
+		});
+		expect(warnSpy).toHaveBeenCalledWith(
+			'cloki: label "user_id" exceeded 1 distinct values and is moved into the log line',
+		);
+	});
+});
+
+describe("applyLabelKeys", () => {
+	const entry = {
+		level: "info" as const,
+		timestamp: 1000,
+		message: { message: "Order placed", tenant: "acme", items: 3 },
+		labels: { app: "shop", user_id: "42" },
+	};
+
+	it("should promote message fields to labels and demote labels", () => {
+		expect(
+			applyLabelKeys(entry, {
+				labelKeys: ["tenant", "items", "missing"],
+				bodyKeys: ["user_id"],
+			}),
+		).toEqual({
+			...entry,
+			message: { user_id: "42", message: "Order placed" },
+			labels: { app: "shop", tenant: "acme", items: "3" },
+		});
+	});
+
+	it("should return the entry unchanged without matching keys", () => {
+		expect(applyLabelKeys(entry, { labelKeys: ["route"] })).toBe(entry);
+	});
+
+	it("should apply the keys before a custom format", async () => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+		const format = vi.fn((_level, _message, labels) => ({
+			streams: [{ stream: labels, values: [] }],
+		}));
+		const logger = getLokiLogger<"tenant" | "user_id">({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					labelKeys: ["tenant"],
+					bodyKeys: ["user_id"],
+					format,
+				}),
+			],
+		});
+		await logger.info({ message: "test", tenant: "acme" }, { user_id: "42" });
+
+		expect(format).toHaveBeenCalledWith(
+			"info",
+			{ user_id: "42", message: "test" },
+			{ tenant: "acme" },
+		);
+	});
+});
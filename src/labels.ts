@@ -0,0 +1,218 @@
+import { withoutCapture } from "./capture";
+import type { LokiLabels } from "./logger";
+import { safeStringify } from "./serialize";
+import type { LogEntry } from "./transports";
+
+/**
+ * Limits applied to Loki stream labels
+ */
+export type LabelLimitsConfig = {
+	/**
+	 * Values longer than this are truncated (default: 1024)
+	 */
+	maxValueLength?: number;
+	/**
+	 * Maximum number of stream labels including level. Labels over the limit
+	 * are moved into the log line (default: unlimited, Loki's default limit is 15)
+	 */
+	maxLabels?: number;
+	/**
+	 * Maximum number of distinct values of a label. A label exceeding it is
+	 * moved into the log line from then on (default: unlimited)
+	 */
+	maxCardinality?: number;
+	/**
+	 * Labels that are never moved into the log line (default: level)
+	 */
+	protectedLabels?: string[];
+	/**
+	 * Called once when a label is moved into the log line because of its
+	 * cardinality (default: console.warn)
+	 */
+	onDemote?: (label: string, distinctValues: number) => void;
+};
+
+/**
+ * Stream labels split into the ones kept and the ones to move into the log line
+ */
+export type GuardedLabels = {
+	labels: Record<string, string>;
+	demoted: Record<string, string>;
+};
+
+/**
+ * Label guard keeping the cardinality state of a transport
+ */
+export type LabelGuard = (labels: Record<string, string>) => GuardedLabels;
+
+const LABEL_KEY_INVALID_CHARS = /[^a-zA-Z0-9_]/g;
+
+/**
+ * Normalize a label key to Loki's [a-zA-Z_][a-zA-Z0-9_]* rules,
+ * e.g. http-status -> http_status, 2xx -> _2xx
+ *
+ * @param key
+ */
+export function sanitizeLabelKey(key: string): string {
+	const sanitized = key.replace(LABEL_KEY_INVALID_CHARS, "_");
+	return /^[0-9]/.test(sanitized) || sanitized === ""
+		? `_${sanitized}`
+		: sanitized;
+}
+
+/**
+ * Sanitize keys and truncate values of labels.
+ * Keys that are already valid keep their name. A key sanitized to a name
+ * already in use gets a numeric suffix, e.g. http-status -> http_status_2
+ *
+ * @param labels
+ * @param maxValueLength
+ */
+export function sanitizeLabels(
+	labels: Record<string, string>,
+	maxValueLength = 1024,
+): Record<string, string> {
+	const entries = Object.entries(labels);
+	const sanitized: Record<string, string> = {};
+	const used = new Set<string>();
+	const setLabel = (key: string, value: string) => {
+		used.add(key);
+		const text = String(value);
+		sanitized[key] =
+			text.length > maxValueLength ? text.slice(0, maxValueLength) : text;
+	};
+
+	for (const [key, value] of entries) {
+		if (sanitizeLabelKey(key) === key) {
+			setLabel(key, value);
+		}
+	}
+	for (const [key, value] of entries) {
+		const base = sanitizeLabelKey(key);
+		if (base === key) {
+			continue;
+		}
+		let name = base;
+		for (let i = 2; used.has(name); i++) {
+			name = `${base}_${i}`;
+		}
+		setLabel(name, value);
+	}
+	return sanitized;
+}
+
+/**
+ * Create a guard enforcing maxLabels and maxCardinality on stream labels
+ *
+ * @param config
+ */
+export function createLabelGuard(config: LabelLimitsConfig = {}): LabelGuard {
+	const protectedLabels = config.protectedLabels ?? ["level"];
+	const onDemote =
+		config.onDemote ??
+		((label: string, distinctValues: number) =>
+			withoutCapture(() =>
+				console.warn(
+					`cloki: label "${label}" exceeded ${distinctValues - 1} distinct values and is moved into the log line`,
+				),
+			));
+	const distinct = new Map<string, Set<string>>();
+	const demotedKeys = new Set<string>();
+
+	const isOverCardinality = (key: string, value: string): boolean => {
+		if (!config.maxCardinality || protectedLabels.includes(key)) {
+			return false;
+		}
+		if (demotedKeys.has(key)) {
+			return true;
+		}
+		const values = distinct.get(key) ?? new Set<string>();
+		distinct.set(key, values);
+		values.add(value);
+		if (values.size <= config.maxCardinality) {
+			return false;
+		}
+		demotedKeys.add(key);
+		distinct.delete(key);
+		onDemote(key, values.size);
+		return true;
+	};
+
+	return (input) => {
+		const result: GuardedLabels = { labels: {}, demoted: {} };
+		let count = 0;
+		// Protected labels are counted first so they are never over maxLabels
+		const keys = Object.keys(input).sort(
+			(a, b) =>
+				Number(protectedLabels.includes(b)) -
+				Number(protectedLabels.includes(a)),
+		);
+		for (const key of keys) {
+			const value = input[key];
+			if (
+				isOverCardinality(key, value) ||
+				(config.maxLabels !== undefined &&
+					count >= config.maxLabels &&
+					!protectedLabels.includes(key))
+			) {
+				result.demoted[key] = value;
+			} else {
+				result.labels[key] = value;
+				count++;
+			}
+		}
+		return result;
+	};
+}
+
+/**
+ * Fields moved between the stream labels and the log line
+ */
+export type LabelKeysConfig<T extends string = string> = {
+	/**
+	 * Message fields promoted to stream labels
+	 */
+	labelKeys?: T[];
+	/**
+	 * Labels demoted into the log line
+	 */
+	bodyKeys?: T[];
+};
+
+/**
+ * Promote labelKeys fields of the message to labels and demote bodyKeys
+ * labels into the message. Fields that are missing or null are left as is.
+ *
+ * @param entry
+ * @param config
+ */
+export function applyLabelKeys<T extends string>(
+	entry: LogEntry<T>,
+	config: LabelKeysConfig<T>,
+): LogEntry<T> {
+	const { labelKeys = [], bodyKeys = [] } = config;
+	const source = entry.message as Record<string, unknown>;
+	const promoted = Array.isArray(source)
+		? []
+		: labelKeys.filter(
+				(key) => source[key] !== undefined && source[key] !== null,
+			);
+	const demoted = bodyKeys.filter((key) => entry.labels[key] !== undefined);
+	if (promoted.length === 0 && demoted.length === 0) {
+		return entry;
+	}
+
+	const labels: Record<string, string> = { ...entry.labels };
+	const message: Record<string, unknown> = {};
+	for (const key of demoted) {
+		message[key] = labels[key];
+		delete labels[key];
+	}
+	Object.assign(message, source);
+	for (const key of promoted) {
+		const value = source[key];
+		labels[key] = typeof value === "string" ? value : safeStringify(value);
+		delete message[key];
+	}
+	return { ...entry, message, labels: labels as LokiLabels<T> };
+}
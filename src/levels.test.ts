@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	defineLogLevel,
+	LOG_LEVEL_PRIORITY,
+	loadLogLevel,
+	parseLogLevel,
+} from "./levels";
+import { getLokiLogger } from "./logger";
+import { consoleTransport, memoryTransport } from "./transports";
+
+declare module "./levels" {
+	interface CustomLogLevels {
+		notice: true;
+	}
+}
+
+describe("Log levels", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should support trace and fatal", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory] });
+		await logger.trace("hidden");
+		await logger.fatal("shown");
+		logger.setLevel("trace");
+		await logger.trace("shown too");
+
+		expect(memory.entries.map((e) => [e.level, e.message])).toEqual([
+			["fatal", { message: "shown" }],
+			["trace", { message: "shown too" }],
+		]);
+	});
+
+	it("should change the level at runtime, inherited by children", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory], minLevel: "info" });
+		const child = logger.child({ module: "billing" });
+
+		logger.setLevel("error");
+		await logger.warn("parent warn");
+		await child.warn("child warn");
+		expect(child.getLevel()).toBe("error");
+
+		child.setLevel("debug");
+		await child.debug("child debug");
+		await logger.debug("parent debug");
+
+		logger.setLevel();
+		child.setLevel();
+		await child.info("child info");
+
+		expect(memory.entries.map((e) => e.message)).toEqual([
+			{ message: "child debug" },
+			{ message: "child info" },
+		]);
+		expect(logger.getLevel()).toBe("info");
+	});
+
+	it("should apply level overrides by labels", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			minLevel: "warn",
+			levelOverrides: [{ labels: { module: "billing" }, minLevel: "debug" }],
+		});
+		await logger.child({ module: "billing" }).debug("billing debug");
+		await logger.info("other info");
+		await logger.debug("call labels", { module: "billing" });
+
+		expect(memory.entries.map((e) => e.message)).toEqual([
+			{ message: "billing debug" },
+			{ message: "call labels" },
+		]);
+	});
+
+	it("should lower the level for the default Loki transport", async () => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		const fetcher = vi.fn(
+			async (_url: string, _init: RequestInit) =>
+				new Response(null, { status: 204 }),
+		);
+		const logger = getLokiLogger({
+			lokiUrl: "http://loki",
+			fetcher,
+			minLevel: "warn",
+			levelOverrides: [{ labels: { module: "billing" }, minLevel: "debug" }],
+		});
+		await logger.debug("hidden");
+		await logger.debug("billing debug", { module: "billing" });
+		logger.setLevel("debug");
+		await logger.debug("after setLevel");
+
+		expect(
+			fetcher.mock.calls.map(
+				([, init]) => JSON.parse(init.body as string).streams[0].values[0][1],
+			),
+		).toEqual(['{"message":"billing debug"}', '{"message":"after setLevel"}']);
+	});
+
+	it("should log custom levels with their priority and color", async () => {
+		defineLogLevel("notice", { priority: 35, color: "\x1b[36m" });
+		const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+		const memory = memoryTransport({ minLevel: "notice" });
+		const logger = getLokiLogger({
+			transports: [memory, consoleTransport({ pretty: true, colors: true })],
+		});
+		await logger.notice("Quota at 80%");
+		await logger.log("notice", "via log");
+		await logger.info("below notice");
+
+		expect(memory.entries.map((e) => e.level)).toEqual(["notice", "notice"]);
+		expect(logSpy).toHaveBeenCalledWith(
+			"\x1b[36m[NOTICE]\x1b[0m",
+			'{"message":"Quota at 80%"}',
+		);
+		expect(parseLogLevel("NOTICE")).toBe("notice");
+		expect(LOG_LEVEL_PRIORITY.notice).toBe(35);
+	});
+
+	it("should reject reserved level names", () => {
+		expect(() => defineLogLevel("child" as "notice", { priority: 1 })).toThrow(
+			'cloki: "child" cannot be used as a custom log level',
+		);
+		for (const name of ["__proto__", "constructor"]) {
+			expect(() => defineLogLevel(name as "notice", { priority: 1 })).toThrow(
+				`cloki: "${name}" cannot be used as a custom log level`,
+			);
+		}
+	});
+
+	it("should not parse Object.prototype keys as levels", async () => {
+		expect(parseLogLevel("constructor")).toBe(undefined);
+		expect(parseLogLevel("__proto__")).toBe(undefined);
+		expect(parseLogLevel("toString")).toBe(undefined);
+		expect(await loadLogLevel({ env: { LOG_LEVEL: "constructor" } })).toBe(
+			undefined,
+		);
+	});
+
+	it("should load the level from KV before env", async () => {
+		const get = vi.fn(async () => "DEBUG");
+
+		expect(
+			await loadLogLevel({ kv: { get }, env: { LOG_LEVEL: "warn" } }),
+		).toBe("debug");
+		expect(get).toHaveBeenCalledWith("log_level", { cacheTtl: 60 });
+		expect(
+			await loadLogLevel({
+				kv: { get: async () => null },
+				env: { LOG_LEVEL: "warn" },
+			}),
+		).toBe("warn");
+		expect(await loadLogLevel({ env: { LOG_LEVEL: "verbose" } })).toBe(
+			undefined,
+		);
+	});
+});
@@ -0,0 +1,212 @@
+/**
+ * Custom log levels, added with declaration merging:
+ *
+ * declare module "@miketako3/cloki" {
+ *   interface CustomLogLevels { notice: true }
+ * }
+ *
+ * and registered at runtime with defineLogLevel
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: extended by declaration merging
+export interface CustomLogLevels {}
+
+/**
+ * Built-in log levels
+ */
+export type BuiltinLogLevel =
+	| "trace"
+	| "debug"
+	| "info"
+	| "warn"
+	| "error"
+	| "fatal";
+
+/**
+ * Log levels
+ */
+export type LogLevel = BuiltinLogLevel | Extract<keyof CustomLogLevels, string>;
+
+/**
+ * Priority of log levels, higher is more severe.
+ * Custom levels are added by defineLogLevel
+ */
+export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+	trace: 10,
+	debug: 20,
+	info: 30,
+	warn: 40,
+	error: 50,
+	fatal: 60,
+} as Record<LogLevel, number>;
+
+/**
+ * ANSI colors of log levels in pretty console output
+ */
+export const LOG_LEVEL_COLORS: Record<LogLevel, string> = {
+	trace: "\x1b[90m", // gray
+	debug: "\x1b[34m", // blue
+	info: "\x1b[32m", // green
+	warn: "\x1b[33m", // yellow
+	error: "\x1b[31m", // red
+	fatal: "\x1b[35m", // magenta
+} as Record<LogLevel, string>;
+
+/**
+ * Custom log level
+ */
+export type LogLevelDefinition = {
+	/**
+	 * Position among the built-in levels (10 trace, 20 debug, 30 info,
+	 * 40 warn, 50 error, 60 fatal)
+	 */
+	priority: number;
+	/**
+	 * ANSI color in pretty console output
+	 */
+	color?: string;
+};
+
+/**
+ * Built-in levels and names that would shadow logger methods
+ */
+const RESERVED_LEVEL_NAMES = [
+	"trace",
+	"debug",
+	"info",
+	"warn",
+	"error",
+	"fatal",
+	"log",
+	"wrap",
+	"child",
+	"startSpan",
+	"traceHeaders",
+	"flush",
+	"setLevel",
+	"getLevel",
+];
+
+/**
+ * Register a custom log level. Loggers created afterwards get a method
+ * named after it
+ *
+ * @param name
+ * @param definition
+ */
+export function defineLogLevel(
+	name: LogLevel,
+	definition: LogLevelDefinition,
+): void {
+	// Object.prototype names like __proto__ and constructor would not become
+	// own keys of the level tables
+	if (RESERVED_LEVEL_NAMES.includes(name) || name in Object.prototype) {
+		throw new Error(`cloki: "${name}" cannot be used as a custom log level`);
+	}
+	LOG_LEVEL_PRIORITY[name] = definition.priority;
+	LOG_LEVEL_COLORS[name] = definition.color ?? "";
+}
+
+/**
+ * Check if logs of a level pass a minimum level
+ *
+ * @param level
+ * @param minLevel
+ */
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+	return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[minLevel];
+}
+
+/**
+ * Minimum level for logs whose labels include all of the given labels,
+ * e.g. { labels: { module: "billing" }, minLevel: "debug" }
+ */
+export type LevelOverride = {
+	labels: Record<string, string>;
+	minLevel: LogLevel;
+};
+
+/**
+ * Get the minimum level of the first override matching the labels
+ *
+ * @param overrides
+ * @param labels
+ */
+export function getLevelOverride(
+	overrides: LevelOverride[],
+	labels: Record<string, string>,
+): LogLevel | undefined {
+	return overrides.find((override) =>
+		Object.entries(override.labels).every(
+			([key, value]) => labels[key] === value,
+		),
+	)?.minLevel;
+}
+
+/**
+ * Parse a level name case-insensitively, e.g. from an environment variable.
+ * Unknown names return undefined
+ *
+ * @param value
+ */
+export function parseLogLevel(value: unknown): LogLevel | undefined {
+	if (typeof value !== "string") {
+		return undefined;
+	}
+	const level = value.trim().toLowerCase();
+	// Own keys only, "constructor" is in every object
+	return Object.keys(LOG_LEVEL_PRIORITY).includes(level)
+		? (level as LogLevel)
+		: undefined;
+}
+
+/**
+ * Workers KV namespace holding the level as text
+ */
+export type LogLevelKVLike = {
+	get: (key: string, options?: { cacheTtl?: number }) => Promise<string | null>;
+};
+
+/**
+ * Where to read the level from at runtime
+ */
+export type LogLevelSource = {
+	/**
+	 * Worker env or process.env
+	 */
+	env?: Record<string, unknown>;
+	/**
+	 * Environment variable name (default: LOG_LEVEL)
+	 */
+	envKey?: string;
+	kv?: LogLevelKVLike;
+	/**
+	 * KV key (default: log_level)
+	 */
+	kvKey?: string;
+	/**
+	 * Seconds the KV value is cached at the edge (default: 60, the minimum)
+	 */
+	cacheTtl?: number;
+};
+
+/**
+ * Read the minimum level from KV, falling back to an environment variable.
+ * Pass the result to logger.setLevel to change the level without a redeploy
+ *
+ * @param source
+ */
+export async function loadLogLevel(
+	source: LogLevelSource,
+): Promise<LogLevel | undefined> {
+	if (source.kv) {
+		const level = parseLogLevel(
+			await source.kv.get(source.kvKey ?? "log_level", {
+				cacheTtl: source.cacheTtl ?? 60,
+			}),
+		);
+		if (level) {
+			return level;
+		}
+	}
+	return parseLogLevel(source.env?.[source.envKey ?? "LOG_LEVEL"]);
+}
@@ -1,11 +1,13 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createBatcher, resolveBatchThresholds } from "./batch";
+import type { LogLevel } from "./levels";
+import { getLokiLogger, type LogMessage, type LokiLabels } from "./logger"; // Adjust the import path as necessary
+import { type LokiMessage, lokiTransport } from "./loki";
 import {
-	getLokiLogger,
-	type LogLevel,
-	type LogMessage,
-	type LokiLabels,
-	type LokiMessage,
-} from "./logger"; // Adjust the import path as necessary
+	consoleTransport,
+	memoryTransport,
+	type Transport,
+} from "./transports";
 
 global.fetch = vi.fn(() =>
 	Promise.resolve({
@@ -36,7 +38,9 @@ describe("Loki Logger", () => {
 	describe("Logging Methods", () => {
 		const methods = ["info", "warn", "error", "debug"] as const;
 		it.each(methods)("should call log for %s method", async (method) => {
-			const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+			const consoleErrorSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
 			const logger = getLokiLogger(mockConfig);
 			const mockMessage = { test: "message" };
 			const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
@@ -66,38 +70,46 @@ describe("Loki Logger", () => {
 			consoleErrorSpy.mockRestore();
 		});
 
-		it.each(
-			methods,
-		)("should call log for %s method with some labels", async (method) => {
-			const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
-			const logger = getLokiLogger(mockConfig);
-			const mockMessage = { test: "message" };
-			const mockLabels = { hoge: "huga" };
-			const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
-			const dateNowSpy = vi.spyOn(Date, "now").mockReturnValue(1482363367071);
-
-			await (
-				logger[method] as (
-					message: LogMessage,
-					labels?: LokiLabels<string>,
-				) => Promise<void>
-			)(mockMessage, mockLabels);
-
-			expect(consoleSpy).toHaveBeenCalledWith(JSON.stringify(mockMessage));
-			expect(fetch).toHaveBeenCalledTimes(1);
-			expect(fetch).toHaveBeenCalledWith("https://testhost/loki/api/v1/push", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-					Authorization: `Basic ${btoa("user:token123")}`,
-				},
-				body: `{"streams":[{"stream":{"level":"${method}","hoge":"huga"},"values":[["1482363367071000000","{\\"test\\":\\"message\\"}"]]}]}`,
-			});
-
-			consoleSpy.mockRestore();
-			dateNowSpy.mockRestore();
-			consoleErrorSpy.mockRestore();
-		});
+		it.each(methods)(
+			"should call log for %s method with some labels",
+			async (method) => {
+				const consoleErrorSpy = vi
+					.spyOn(console, "error")
+					.mockImplementation(() => {});
+				const logger = getLokiLogger(mockConfig);
+				const mockMessage = { test: "message" };
+				const mockLabels = { hoge: "huga" };
+				const consoleSpy = vi
+					.spyOn(console, "log")
+					.mockImplementation(() => {});
+				const dateNowSpy = vi.spyOn(Date, "now").mockReturnValue(1482363367071);
+
+				await (
+					logger[method] as (
+						message: LogMessage,
+						labels?: LokiLabels<string>,
+					) => Promise<void>
+				)(mockMessage, mockLabels);
+
+				expect(consoleSpy).toHaveBeenCalledWith(JSON.stringify(mockMessage));
+				expect(fetch).toHaveBeenCalledTimes(1);
+				expect(fetch).toHaveBeenCalledWith(
+					"https://testhost/loki/api/v1/push",
+					{
+						method: "POST",
+						headers: {
+							"Content-Type": "application/json",
+							Authorization: `Basic ${btoa("user:token123")}`,
+						},
+						body: `{"streams":[{"stream":{"level":"${method}","hoge":"huga"},"values":[["1482363367071000000","{\\"test\\":\\"message\\"}"]]}]}`,
+					},
+				);
+
+				consoleSpy.mockRestore();
+				dateNowSpy.mockRestore();
+				consoleErrorSpy.mockRestore();
+			},
+		);
 	});
 });
 
@@ -239,18 +251,21 @@ describe("Advanced Features", () => {
 	});
 
 	describe("Request Auto Extraction", () => {
+		const RAY_TRACE_ID = "00000000000000008a1b2c3d4e5f6789";
 		const mockRequest = {
 			method: "GET",
 			url: "https://example.com/api",
 			headers: new Map([
 				["user-agent", "test-agent"],
-				["cf-ray", "ray-123"],
+				["cf-ray", "8a1b2c3d4e5f6789-NRT"],
 				["x-request-id", "req-456"],
 			]),
 		} as unknown as Request;
 
 		it("should extract labels from request in config", async () => {
-			const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
 			const logger = getLokiLogger({ ...mockConfig, request: mockRequest });
 			await logger.info({ msg: "test" });
 
@@ -260,15 +275,19 @@ describe("Advanced Features", () => {
 			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
 			const stream = body.streams[0].stream;
 			expect(stream.http_method).toBe("GET");
-			expect(stream.http_url).toBe("https://example.com/api");
-			expect(stream.http_user_agent).toBe("test-agent");
-			expect(stream.trace_id).toBe("ray-123");
-			expect(stream.request_id).toBe("req-456");
+			expect(stream.http_url).toBeUndefined();
+			const metadata = body.streams[0].values[0][2];
+			expect(metadata.http_url).toBe("https://example.com/api");
+			expect(metadata.http_user_agent).toBe("test-agent");
+			expect(metadata.trace_id).toBe(RAY_TRACE_ID);
+			expect(metadata.request_id).toBe("req-456");
 			consoleSpy.mockRestore();
 		});
 
 		it("should extract labels from request in message", async () => {
-			const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
 			const logger = getLokiLogger(mockConfig);
 			await logger.info({ msg: "test", request: mockRequest });
 
@@ -278,14 +297,107 @@ describe("Advanced Features", () => {
 			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
 			const stream = body.streams[0].stream;
 			expect(stream.http_method).toBe("GET");
-			expect(stream.trace_id).toBe("ray-123");
+			expect(body.streams[0].values[0][2].trace_id).toBe(RAY_TRACE_ID);
+			consoleSpy.mockRestore();
+		});
+
+		it("should send configured label keys as structured metadata", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const logger = getLokiLogger({
+				...mockConfig,
+				request: mockRequest,
+				structuredMetadataKeys: ["http_method", "user_id"],
+			});
+			await logger.info({ msg: "test" }, { user_id: "u1", route: "/api" });
+
+			const fetchMock = fetch as unknown as {
+				mock: { calls: [unknown, { body: string }][] };
+			};
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams[0].stream).toEqual({
+				level: "info",
+				http_url: "https://example.com/api",
+				http_user_agent: "test-agent",
+				trace_id: RAY_TRACE_ID,
+				span_id: expect.stringMatching(/^[0-9a-f]{16}$/),
+				request_id: "req-456",
+				route: "/api",
+			});
+			expect(body.streams[0].values[0][2]).toEqual({
+				http_method: "GET",
+				user_id: "u1",
+			});
+			consoleSpy.mockRestore();
+		});
+
+		it("should send everything as labels when no metadata keys are set", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const logger = getLokiLogger({
+				...mockConfig,
+				request: mockRequest,
+				structuredMetadataKeys: [],
+			});
+			await logger.info({ msg: "test" });
+
+			const fetchMock = fetch as unknown as {
+				mock: { calls: [unknown, { body: string }][] };
+			};
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams[0].stream.trace_id).toBe(RAY_TRACE_ID);
+			expect(body.streams[0].values[0]).toHaveLength(2);
+			consoleSpy.mockRestore();
+		});
+	});
+
+	describe("Error serialization", () => {
+		it("should keep the details of Error objects in messages", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const logger = getLokiLogger(mockConfig);
+			const error = Object.assign(new Error("outer"), {
+				cause: new Error("inner"),
+			});
+			await logger.error({ message: "failed", error });
+
+			const fetchMock = fetch as unknown as {
+				mock: { calls: [unknown, { body: string }][] };
+			};
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			const message = JSON.parse(body.streams[0].values[0][1]);
+			expect(message.error.message).toBe("outer");
+			expect(message.error.stack).toContain("outer");
+			expect(message.error.cause.message).toBe("inner");
+			consoleSpy.mockRestore();
+		});
+
+		it("should accept an Error as the message", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const logger = getLokiLogger(mockConfig);
+			await logger.error(new RangeError("out of range"));
+
+			const fetchMock = fetch as unknown as {
+				mock: { calls: [unknown, { body: string }][] };
+			};
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			const message = JSON.parse(body.streams[0].values[0][1]);
+			expect(message.message).toBe("out of range");
+			expect(message.error.name).toBe("RangeError");
 			consoleSpy.mockRestore();
 		});
 	});
 
 	describe("Wrapper (AOP)", () => {
 		it("should measure execution time and log it", async () => {
-			const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
 			const logger = getLokiLogger(mockConfig);
 			// Simulate passage of time by returning different values for Date.now
 			const dateNowSpy = vi.spyOn(Date, "now");
@@ -316,7 +428,9 @@ describe("Advanced Features", () => {
 		});
 
 		it("should log error on failure", async () => {
-			const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
 			const logger = getLokiLogger(mockConfig);
 			const fn = async () => {
 				throw new Error("fail");
@@ -333,7 +447,9 @@ describe("Advanced Features", () => {
 			expect(stream.level).toBe("error");
 			const message = JSON.parse(body.streams[0].values[0][1]);
 			expect(message.function_name).toBe("failFn");
-			expect(message.error).toBe("fail");
+			expect(message.error.name).toBe("Error");
+			expect(message.error.message).toBe("fail");
+			expect(message.error.stack).toContain("fail");
 			consoleSpy.mockRestore();
 		});
 	});
@@ -392,3 +508,347 @@ describe("Cloudflare Workers context", () => {
 		consoleSpy.mockRestore();
 	});
 });
+
+describe("Batching", () => {
+	const mockConfig = {
+		lokiHost: "testhost",
+		lokiToken: "token123",
+		lokiUser: "user",
+	};
+
+	const fetchBodies = () =>
+		(
+			fetch as unknown as {
+				mock: { calls: [unknown, { body: string }][] };
+			}
+		).mock.calls.map(([, init]) => JSON.parse(init.body));
+
+	beforeEach(() => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("should buffer logs until flush is called", async () => {
+		const logger = getLokiLogger({ ...mockConfig, batch: true });
+		await logger.info("one");
+		await logger.warn("two");
+		await logger.info("three", { foo: "bar" });
+
+		expect(fetch).not.toHaveBeenCalled();
+
+		await logger.flush();
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		const [body] = fetchBodies();
+		expect(body.streams).toHaveLength(3);
+		expect(body.streams[0].stream).toEqual({ level: "info" });
+		expect(body.streams[0].values).toHaveLength(1);
+		expect(body.streams[1].stream).toEqual({ level: "warn" });
+		expect(body.streams[2].stream).toEqual({ level: "info", foo: "bar" });
+	});
+
+	it("should group entries with identical labels into one stream", async () => {
+		const logger = getLokiLogger({ ...mockConfig, batch: true });
+		await logger.info("one", { a: "1", b: "2" });
+		await logger.info("two", { b: "2", a: "1" });
+
+		await logger.flush();
+
+		const [body] = fetchBodies();
+		expect(body.streams).toHaveLength(1);
+		expect(body.streams[0].values.map((v: string[]) => v[1])).toEqual([
+			'{"message":"one"}',
+			'{"message":"two"}',
+		]);
+	});
+
+	it("should push when maxEntries is reached", async () => {
+		const logger = getLokiLogger({
+			...mockConfig,
+			batch: { maxEntries: 2 },
+		});
+		await logger.info("one");
+		expect(fetch).not.toHaveBeenCalled();
+		await logger.info("two");
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(fetchBodies()[0].streams[0].values).toHaveLength(2);
+	});
+
+	it("should push when maxBytes is reached", async () => {
+		const logger = getLokiLogger({
+			...mockConfig,
+			batch: { maxBytes: 10 },
+		});
+		await logger.info("a message longer than ten bytes");
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("should push when maxWaitMs elapses", async () => {
+		vi.useFakeTimers();
+		const logger = getLokiLogger({
+			...mockConfig,
+			batch: { maxWaitMs: 500 },
+		});
+		await logger.info("one");
+		expect(fetch).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(500);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("should pass the threshold push to ctx.waitUntil", async () => {
+		const ctx = { waitUntil: vi.fn() };
+		const logger = getLokiLogger({
+			...mockConfig,
+			ctx,
+			batch: { maxEntries: 2 },
+		});
+		await logger.info("one");
+		expect(ctx.waitUntil).not.toHaveBeenCalled();
+		await logger.info("two");
+		expect(ctx.waitUntil).toHaveBeenCalledTimes(1);
+	});
+
+	it("should resolve flush without pushing when nothing is buffered", async () => {
+		const logger = getLokiLogger({ ...mockConfig, batch: true });
+		await logger.flush();
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	it("should not size entries that are pushed alone", async () => {
+		const size = vi.fn(() => 1);
+		const send = vi.fn(async () => {});
+		const batcher = createBatcher({
+			...resolveBatchThresholds(false),
+			size,
+			send,
+		});
+		await batcher.add("one");
+
+		expect(send).toHaveBeenCalledWith(["one"]);
+		expect(size).not.toHaveBeenCalled();
+	});
+});
+
+describe("Child loggers", () => {
+	const mockConfig = {
+		lokiHost: "testhost",
+		lokiToken: "token123",
+		lokiUser: "user",
+	};
+
+	const fetchBodies = () =>
+		(
+			fetch as unknown as {
+				mock: { calls: [unknown, { body: string }][] };
+			}
+		).mock.calls.map(([, init]) => JSON.parse(init.body));
+
+	beforeEach(() => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should merge labels and fields into every log", async () => {
+		const logger = getLokiLogger({
+			...mockConfig,
+			defaultLabels: { app: "api" },
+		});
+		const child = logger.child({ module: "billing" }, { user_id: "u1" });
+		await child.info({ message: "charged" }, { step: "capture" });
+
+		const [body] = fetchBodies();
+		expect(body.streams[0].stream).toEqual({
+			level: "info",
+			app: "api",
+			module: "billing",
+			step: "capture",
+		});
+		expect(JSON.parse(body.streams[0].values[0][1])).toEqual({
+			user_id: "u1",
+			message: "charged",
+		});
+	});
+
+	it("should nest to any depth", async () => {
+		const logger = getLokiLogger(mockConfig);
+		const grandchild = logger
+			.child({ a: "1" }, { x: 1 })
+			.child({ b: "2" }, { y: 2 })
+			.child({ a: "3" }, { x: 3 });
+		await grandchild.info("nested");
+
+		const [body] = fetchBodies();
+		expect(body.streams[0].stream).toEqual({ level: "info", a: "3", b: "2" });
+		expect(JSON.parse(body.streams[0].values[0][1])).toEqual({
+			x: 3,
+			y: 2,
+			message: "nested",
+		});
+	});
+
+	it("should not affect the parent logger", async () => {
+		const logger = getLokiLogger(mockConfig);
+		logger.child({ module: "billing" }, { user_id: "u1" });
+		await logger.info("parent");
+
+		const [body] = fetchBodies();
+		expect(body.streams[0].stream).toEqual({ level: "info" });
+		expect(JSON.parse(body.streams[0].values[0][1])).toEqual({
+			message: "parent",
+		});
+	});
+
+	it("should share the batch buffer with the parent", async () => {
+		const logger = getLokiLogger({ ...mockConfig, batch: true });
+		const child = logger.child({ module: "billing" });
+		await logger.info("parent");
+		await child.info("child");
+
+		await logger.flush();
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(fetchBodies()[0].streams).toHaveLength(2);
+	});
+});
+
+describe("Transports", () => {
+	const mockConfig = {
+		lokiHost: "testhost",
+		lokiToken: "token123",
+		lokiUser: "user",
+	};
+
+	beforeEach(() => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should replace the default transports", async () => {
+		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ ...mockConfig, transports: [memory] });
+		await logger.info({ msg: "test" }, { foo: "bar" });
+
+		expect(fetch).not.toHaveBeenCalled();
+		expect(consoleSpy).not.toHaveBeenCalled();
+		expect(memory.entries).toHaveLength(1);
+		expect(memory.entries[0]).toMatchObject({
+			level: "info",
+			message: { msg: "test" },
+			labels: { foo: "bar" },
+		});
+	});
+
+	it("should fan out to every transport", async () => {
+		const first = memoryTransport();
+		const second = memoryTransport();
+		const logger = getLokiLogger({ transports: [first, second] });
+		await logger.warn("test");
+
+		expect(first.entries).toHaveLength(1);
+		expect(second.entries).toHaveLength(1);
+	});
+
+	it("should respect the minLevel of each transport", async () => {
+		const all = memoryTransport();
+		const errors = memoryTransport({ minLevel: "error" });
+		const logger = getLokiLogger({ transports: [all, errors] });
+		await logger.info("info");
+		await logger.error("error");
+
+		expect(all.entries.map((entry) => entry.level)).toEqual(["info", "error"]);
+		expect(errors.entries.map((entry) => entry.level)).toEqual(["error"]);
+	});
+
+	it("should keep at most limit entries in memory", async () => {
+		const memory = memoryTransport({ limit: 2 });
+		const logger = getLokiLogger({ transports: [memory] });
+		await logger.info("one");
+		await logger.info("two");
+		await logger.info("three");
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ message: "two" },
+			{ message: "three" },
+		]);
+	});
+
+	it("should pass promises of custom transports to ctx.waitUntil", async () => {
+		const ctx = { waitUntil: vi.fn() };
+		const write = vi.fn(async () => {});
+		const flush = vi.fn(async () => {});
+		const custom: Transport = { name: "custom", write, flush };
+		const logger = getLokiLogger({ transports: [custom], ctx });
+		await logger.info("test");
+		await logger.flush();
+
+		expect(write).toHaveBeenCalledTimes(1);
+		expect(ctx.waitUntil).toHaveBeenCalledTimes(1);
+		expect(flush).toHaveBeenCalledTimes(1);
+	});
+
+	it("should combine built-in transports", async () => {
+		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+		const logger = getLokiLogger({
+			transports: [
+				consoleTransport({ pretty: true }),
+				lokiTransport({ ...mockConfig, minLevel: "warn" }),
+			],
+		});
+		await logger.info({ msg: "info" });
+		await logger.warn({ msg: "warn" });
+
+		expect(consoleSpy).toHaveBeenCalledWith(
+			expect.stringContaining("[INFO]"),
+			'{"msg":"info"}',
+		);
+		expect(consoleSpy).toHaveBeenCalledTimes(2);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("should use a custom console formatter", async () => {
+		const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+		const logger = getLokiLogger({
+			transports: [
+				consoleTransport({
+					format: (entry) => [entry.level, entry.message],
+				}),
+			],
+		});
+		await logger.info("test");
+
+		expect(consoleSpy).toHaveBeenCalledWith("info", { message: "test" });
+	});
+
+	it("should include request and cf labels in entries", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			defaultLabels: { app: "api" },
+			cf: { colo: "KIX" },
+		});
+		await logger.info("test");
+
+		expect(memory.entries[0].labels).toEqual({ app: "api", cf_colo: "KIX" });
+	});
+});
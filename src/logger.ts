@@ -1,34 +1,45 @@
+import { withCurrentLogger } from "./context";
+import { isDevEnv } from "./env";
+import {
+	type BuiltinLogLevel,
+	getLevelOverride,
+	isLevelEnabled,
+	type LevelOverride,
+	LOG_LEVEL_PRIORITY,
+	type LogLevel,
+} from "./levels";
+import { type LokiTransportConfig, lokiTransport } from "./loki";
+import { createRedactor, type RedactConfig, type Redactor } from "./redact";
+import {
+	createLogFilter,
+	type DedupConfig,
+	type LogFilter,
+	type RateLimitConfig,
+	type SamplingConfig,
+} from "./sampling";
+import { isError } from "./serialize";
+import {
+	generateSpanId,
+	generateTraceId,
+	getRequestTraceContext,
+	getTraceHeaders,
+	type TraceContext,
+} from "./trace";
+import {
+	type ConsoleTransportConfig,
+	consoleTransport,
+	type LogEntry,
+	type Transport,
+} from "./transports";
+
 /**
  * Loki config
  */
-export type LokiConfig<T extends string = string> = {
-	lokiHost?: string;
-	lokiToken?: string;
-	lokiUser?: string;
+export type LokiConfig<T extends string = string> = LokiTransportConfig<T> & {
 	/**
 	 * Default labels added to all logs
 	 */
 	defaultLabels?: LokiLabels<T>;
-	/**
-	 * Minimum log level to send to Loki
-	 */
-	minLevel?: LogLevel;
-	/**
-	 * Number of retries for fetch (default: 0)
-	 */
-	retries?: number;
-	/**
-	 * Callback when fetch fails
-	 */
-	onSendError?: (error: unknown, message: LokiMessage<T>) => void;
-	/**
-	 * Custom formatter for Loki message
-	 */
-	format?: (
-		logLevel: LogLevel,
-		message: object,
-		labels: LokiLabels<T>,
-	) => LokiMessage<T>;
 	/**
 	 * If true, don't send to Loki (just console.log)
 	 */
@@ -45,18 +56,36 @@ export type LokiConfig<T extends string = string> = {
 	 * Default Request object for automatic label extraction
 	 */
 	request?: Request;
-};
-
-/**
- * Log levels
- */
-export type LogLevel = "debug" | "info" | "warn" | "error";
-
-const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
-	debug: 0,
-	info: 1,
-	warn: 2,
-	error: 3,
+	/**
+	 * Destinations for logs. Replaces the default console and Loki transports.
+	 */
+	transports?: Transport<T>[];
+	/**
+	 * Options of the default console transport, e.g. { format: "logfmt" }.
+	 * false turns console output off while still sending to Loki
+	 */
+	console?: ConsoleTransportConfig<T> | false;
+	/**
+	 * Redact secrets from messages and labels before they are written
+	 */
+	redact?: RedactConfig;
+	/**
+	 * Probabilistic sampling per level or per trace
+	 */
+	sampling?: SamplingConfig;
+	/**
+	 * Token bucket rate limit shared by the logger and its children
+	 */
+	rateLimit?: RateLimitConfig;
+	/**
+	 * Collapse identical logs within a window into one entry with repeat_count
+	 */
+	dedup?: DedupConfig;
+	/**
+	 * Minimum levels for logs with matching labels, e.g. debug for
+	 * module=billing. The first match takes precedence over minLevel and setLevel
+	 */
+	levelOverrides?: LevelOverride[];
 };
 
 /**
@@ -68,18 +97,6 @@ export type LokiLabels<T extends string = string> = {
 	[key: string]: string;
 };
 
-/**
- * Loki message
- */
-export type LokiMessage<T extends string = string> = {
-	streams: [
-		{
-			stream: LokiLabels<T>;
-			values: [string[]];
-		},
-	];
-};
-
 /**
  * Cloudflare Workers IncomingRequestCfProperties
  */
@@ -107,227 +124,421 @@ export type LogMessage =
 	| { request?: Request; [key: string]: unknown };
 
 /**
- * Create a Loki logger
- * logger has some async logging methods like info, error, warn, etc.
- *
- * @param config
+ * Loki logger
  */
-export const getLokiLogger = <T extends string = string>(
-	config: LokiConfig<T> = {},
-): {
-	info: (
-		message: LogMessage,
-		labels?: LokiLabels<T>,
-		ctx?: ExecutionContext,
-	) => Promise<void>;
-	warn: (
-		message: LogMessage,
-		labels?: LokiLabels<T>,
-		ctx?: ExecutionContext,
-	) => Promise<void>;
-	error: (
-		message: LogMessage,
-		labels?: LokiLabels<T>,
-		ctx?: ExecutionContext,
-	) => Promise<void>;
-	debug: (
+export type LokiLogger<T extends string = string> = {
+	trace: LogMethod<T>;
+	debug: LogMethod<T>;
+	info: LogMethod<T>;
+	warn: LogMethod<T>;
+	error: LogMethod<T>;
+	fatal: LogMethod<T>;
+	/**
+	 * Log at any level, including custom levels
+	 */
+	log: (
+		level: LogLevel,
 		message: LogMessage,
 		labels?: LokiLabels<T>,
 		ctx?: ExecutionContext,
 	) => Promise<void>;
+	/**
+	 * Change the minimum level of this logger and its children at runtime.
+	 * undefined goes back to the level of the parent or config
+	 */
+	setLevel: (level?: LogLevel) => void;
+	/**
+	 * Current minimum level, without levelOverrides
+	 */
+	getLevel: () => LogLevel;
 	wrap: <R, Args extends unknown[]>(
 		name: string,
 		fn: (...args: Args) => Promise<R> | R,
 	) => (...args: Args) => Promise<R>;
-} => {
-	const mergedConfig = {
-		...config,
-		lokiHost:
-			config.lokiHost ||
-			getEnv("LOKI_HOST") ||
-			getEnv("LOKI_URL")?.replace(/^https?:\/\//, ""),
-		lokiToken: config.lokiToken || getEnv("LOKI_TOKEN"),
-		lokiUser: config.lokiUser || getEnv("LOKI_USER"),
-	};
+	/**
+	 * Create a logger with the same config plus extra default labels
+	 * and fields merged into every message
+	 */
+	child: (
+		labels?: LokiLabels<T>,
+		fields?: Record<string, unknown>,
+	) => LokiLogger<T>;
+	/**
+	 * Start a span. Logs written through span.logger carry its trace and span IDs
+	 */
+	startSpan: (name: string, attributes?: Record<string, unknown>) => Span<T>;
+	/**
+	 * Get traceparent/tracestate headers for outgoing fetches
+	 */
+	traceHeaders: () => Record<string, string>;
+	/**
+	 * Push all buffered logs. Pass it to ctx.waitUntil at the end of a handler.
+	 */
+	flush: () => Promise<void>;
+} & {
+	[level in Exclude<LogLevel, BuiltinLogLevel>]: LogMethod<T>;
+};
+
+/**
+ * Log method of a level
+ */
+export type LogMethod<T extends string = string> = (
+	message: LogMessage,
+	labels?: LokiLabels<T>,
+	ctx?: ExecutionContext,
+) => Promise<void>;
+
+/**
+ * Span status
+ */
+export type SpanStatus = "unset" | "ok" | "error";
+
+/**
+ * Span measuring an operation inside a trace
+ */
+export type Span<T extends string = string> = {
+	name: string;
+	traceId: string;
+	spanId: string;
+	parentSpanId?: string;
+	/**
+	 * Unix time in ms
+	 */
+	startTime: number;
+	attributes: Record<string, unknown>;
+	status: SpanStatus;
+	/**
+	 * Logger whose logs carry the trace and span IDs of this span
+	 */
+	logger: LokiLogger<T>;
+	setAttribute: (key: string, value: unknown) => Span<T>;
+	setStatus: (status: SpanStatus, message?: string) => Span<T>;
+	/**
+	 * Get traceparent/tracestate headers that make this span the parent
+	 * of downstream work
+	 */
+	traceHeaders: () => Record<string, string>;
+	/**
+	 * Log the end of the span with its duration, attributes and status.
+	 * Fields are merged into the logged message
+	 */
+	end: (fields?: Record<string, unknown>) => Promise<void>;
+};
+
+/**
+ * Internal state shared by the methods of a logger
+ */
+type LoggerState<T extends string> = {
+	config: LokiConfig<T>;
+	transports: Transport<T>[];
+	/**
+	 * Fields merged into every message
+	 */
+	fields: Record<string, unknown>;
+	redactor?: Redactor;
+	filter?: LogFilter<T>;
+	/**
+	 * Trace context of the current span or incoming request
+	 */
+	trace?: TraceContext;
+	/**
+	 * Level set with setLevel, shared with spans
+	 */
+	level: LevelState;
+};
+
+/**
+ * Level set at runtime, falling back to the parent logger
+ */
+type LevelState = {
+	level?: LogLevel;
+	parent?: LevelState;
+};
+
+/**
+ * Create a Loki logger
+ * logger has some async logging methods like info, error, warn, etc.
+ *
+ * @param config
+ */
+export const getLokiLogger = <T extends string = string>(
+	config: LokiConfig<T> = {},
+): LokiLogger<T> => {
+	return createLogger({
+		config,
+		transports: config.transports ?? getDefaultTransports(config),
+		fields: {},
+		redactor: config.redact ? createRedactor(config.redact) : undefined,
+		filter:
+			config.sampling || config.rateLimit || config.dedup
+				? createLogFilter({
+						sampling: config.sampling,
+						rateLimit: config.rateLimit,
+						dedup: config.dedup,
+						labels: config.defaultLabels,
+					})
+				: undefined,
+		trace: config.request ? getRootTraceContext(config.request) : undefined,
+		level: {},
+	});
+};
+
+/**
+ * Console transport unless console is false, plus Loki transport unless
+ * silent. Console output is pretty-printed when silent or in development.
+ *
+ * @param config
+ */
+function getDefaultTransports<T extends string>(
+	config: LokiConfig<T>,
+): Transport<T>[] {
+	const isDev = isDevEnv();
+	const transports: Transport<T>[] = [];
+	if (config.console !== false) {
+		transports.push(
+			consoleTransport({
+				pretty: config.silent || isDev,
+				indent: isDev ? 2 : 0,
+				...config.console,
+			}),
+		);
+	}
+	if (!config.silent) {
+		// The logger already gates on minLevel, setLevel and levelOverrides
+		transports.push(lokiTransport({ ...config, minLevel: undefined }));
+	}
+	return transports;
+}
+
+/**
+ * Create the logger methods bound to a state
+ *
+ * @param state
+ */
+function createLogger<T extends string>(state: LoggerState<T>): LokiLogger<T> {
+	// Built-in and custom levels registered with defineLogLevel
+	const levelMethods: Record<string, LogMethod<T>> = {};
+	for (const level of Object.keys(LOG_LEVEL_PRIORITY) as LogLevel[]) {
+		levelMethods[level] = lokiLog(state, level);
+	}
 
 	return {
-		info: lokiInfo(mergedConfig),
-		warn: lokiWarn(mergedConfig),
-		error: lokiError(mergedConfig),
-		debug: lokiDebug(mergedConfig),
+		...levelMethods,
+		log: (level, message, labels = {} as LokiLabels<T>, ctx) =>
+			log(state, level, message, labels, ctx),
+		setLevel: (level) => {
+			state.level.level = level;
+		},
+		getLevel: () => getMinLevel(state),
 		wrap: <R, Args extends unknown[]>(
 			name: string,
 			fn: (...args: Args) => Promise<R> | R,
 		) => {
 			return async (...args: Args) => {
-				const start = Date.now();
+				const span = startSpan(state, name);
 				try {
-					const result = await fn(...args);
-					const duration = Date.now() - start;
-					await log(
-						mergedConfig,
-						"info",
-						{
-							message: `Function ${name} executed`,
-							duration_ms: duration,
-							function_name: name,
-						},
-						{} as LokiLabels<T>,
+					// getCurrentLogger() inside fn returns the span logger
+					const result = await withCurrentLogger(span.logger, () =>
+						fn(...args),
 					);
+					span.setStatus("ok");
+					await span.end({
+						message: `Function ${name} executed`,
+						function_name: name,
+					});
 					return result;
 				} catch (error) {
-					const duration = Date.now() - start;
-					await log(
-						mergedConfig,
+					span.setStatus(
 						"error",
-						{
-							message: `Function ${name} failed`,
-							duration_ms: duration,
-							function_name: name,
-							error: error instanceof Error ? error.message : String(error),
-						},
-						{} as LokiLabels<T>,
+						isError(error) ? error.message : String(error),
 					);
+					await span.end({
+						message: `Function ${name} failed`,
+						function_name: name,
+						error,
+					});
 					throw error;
 				}
 			};
 		},
-	};
-};
-
-/**
- * Get environment variable from various sources
- */
-function getEnv(name: string): string | undefined {
-	try {
-		// Node.js
-		if (typeof process !== "undefined" && process.env) {
-			return process.env[name];
-		}
-		// Global
-		if (typeof globalThis !== "undefined") {
-			const global = globalThis as unknown as Record<
-				string,
-				string | undefined
-			>;
-			return global[name];
-		}
-	} catch (_e) {}
-	return undefined;
+		child: (labels = {} as LokiLabels<T>, fields = {}) =>
+			createLogger({
+				...state,
+				config: {
+					...state.config,
+					defaultLabels: {
+						...state.config.defaultLabels,
+						...labels,
+					} as LokiLabels<T>,
+				},
+				fields: { ...state.fields, ...fields },
+				level: { parent: state.level },
+			}),
+		startSpan: (name, attributes) => startSpan(state, name, attributes),
+		traceHeaders: () =>
+			getTraceHeaders(
+				state.trace || {
+					traceId: generateTraceId(),
+					spanId: generateSpanId(),
+					traceFlags: "01",
+				},
+			),
+		flush: async () => {
+			const pending = state.filter ? state.filter.flush() : [];
+			await Promise.all(pending.flatMap((entry) => writeEntry(state, entry)));
+			await Promise.all(
+				state.transports.map((transport) => transport.flush?.()),
+			);
+		},
+	} as LokiLogger<T>;
 }
 
 /**
- * Log info to Loki curried
+ * Start a span as a child of the current trace context,
+ * or as the root of a new trace
  *
- * @param config
+ * @param state
+ * @param name
+ * @param attributes
  */
-const lokiInfo =
-	<T extends string>(config: LokiConfig<T>) =>
-	async (
-		message: LogMessage,
-		labels: LokiLabels<T> = {} as LokiLabels<T>,
-		ctx?: ExecutionContext,
-	) => {
-		await log(config, "info", message, labels, ctx);
+function startSpan<T extends string>(
+	state: LoggerState<T>,
+	name: string,
+	attributes: Record<string, unknown> = {},
+): Span<T> {
+	const parent = state.trace;
+	const context: TraceContext = {
+		traceId: parent ? parent.traceId : generateTraceId(),
+		spanId: generateSpanId(),
+		traceFlags: parent ? parent.traceFlags : "01",
+		traceState: parent?.traceState,
 	};
-
-/**
- * Log warn to Loki curried
- *
- * @param config
- */
-const lokiWarn =
-	<T extends string>(config: LokiConfig<T>) =>
-	async (
-		message: LogMessage,
-		labels: LokiLabels<T> = {} as LokiLabels<T>,
-		ctx?: ExecutionContext,
-	) => {
-		await log(config, "warn", message, labels, ctx);
-	};
-
-/**
- * Log error to Loki curried
- *
- * @param config
- */
-const lokiError =
-	<T extends string>(config: LokiConfig<T>) =>
-	async (
-		message: LogMessage,
-		labels: LokiLabels<T> = {} as LokiLabels<T>,
-		ctx?: ExecutionContext,
-	) => {
-		await log(config, "error", message, labels, ctx);
+	const spanState: LoggerState<T> = { ...state, trace: context };
+	const startTime = Date.now();
+	let statusMessage: string | undefined;
+	let ended = false;
+
+	const span: Span<T> = {
+		name,
+		traceId: context.traceId,
+		spanId: context.spanId,
+		parentSpanId: parent?.spanId,
+		startTime,
+		attributes: { ...attributes },
+		status: "unset",
+		logger: createLogger(spanState),
+		setAttribute: (key, value) => {
+			span.attributes[key] = value;
+			return span;
+		},
+		setStatus: (status, message) => {
+			span.status = status;
+			statusMessage = message;
+			return span;
+		},
+		traceHeaders: () => getTraceHeaders(context),
+		end: async (fields = {}) => {
+			if (ended) {
+				return;
+			}
+			ended = true;
+			await log(
+				spanState,
+				span.status === "error" ? "error" : "info",
+				{
+					message: `Span ${name} ended`,
+					span_name: name,
+					duration_ms: Date.now() - startTime,
+					status: span.status,
+					...(statusMessage ? { status_message: statusMessage } : {}),
+					...(span.parentSpanId ? { parent_span_id: span.parentSpanId } : {}),
+					...(Object.keys(span.attributes).length > 0
+						? { attributes: span.attributes }
+						: {}),
+					...fields,
+				},
+				{} as LokiLabels<T>,
+			);
+		},
 	};
+	return span;
+}
 
 /**
- * Log debug to Loki curried
+ * Log at a level to Loki curried
  *
- * @param config
+ * @param state
+ * @param logLevel
  */
-const lokiDebug =
-	<T extends string>(config: LokiConfig<T>) =>
-	async (
-		message: LogMessage,
-		labels: LokiLabels<T> = {} as LokiLabels<T>,
-		ctx?: ExecutionContext,
-	) => {
-		await log(config, "debug", message, labels, ctx);
+const lokiLog =
+	<T extends string>(state: LoggerState<T>, logLevel: LogLevel): LogMethod<T> =>
+	async (message, labels = {} as LokiLabels<T>, ctx) => {
+		await log(state, logLevel, message, labels, ctx);
 	};
 
 /**
  * Log to Loki
  *
- * @param config
+ * @param state
  * @param logLevel
  * @param message
  * @param labels
  * @param ctx
  */
 async function log<T extends string>(
-	config: LokiConfig<T>,
+	state: LoggerState<T>,
 	logLevel: LogLevel,
 	message: LogMessage,
 	labels: LokiLabels<T>,
 	ctx?: ExecutionContext,
 ) {
-	const minLevel = config.minLevel || "debug";
-	if (LOG_LEVEL_PRIORITY[logLevel] < LOG_LEVEL_PRIORITY[minLevel]) {
+	const { config } = state;
+	const overrides = config.levelOverrides;
+	// Overrides depend on the labels, so they are checked once labels are merged
+	if (!overrides && !isLevelEnabled(logLevel, getMinLevel(state))) {
 		return;
 	}
 
-	const normalizedMessage = typeof message === "string" ? { message } : message;
-
-	const isDev =
-		getEnv("NODE_ENV") === "development" || getEnv("WORKER_ENV") === "dev";
-
-	if (config.silent || isDev) {
-		const colorMap: Record<LogLevel, string> = {
-			debug: "\x1b[34m", // blue
-			info: "\x1b[32m", // green
-			warn: "\x1b[33m", // yellow
-			error: "\x1b[31m", // red
-		};
-		const reset = "\x1b[0m";
-		console.log(
-			`${colorMap[logLevel]}[${logLevel.toUpperCase()}]${reset}`,
-			JSON.stringify(normalizedMessage, null, isDev ? 2 : 0),
-		);
-	} else {
-		console.log(JSON.stringify(normalizedMessage));
-	}
-
-	if (config.silent) {
+	const baseMessage = normalizeMessage(message);
+	const normalizedMessage =
+		Object.keys(state.fields).length > 0
+			? { ...state.fields, ...baseMessage }
+			: baseMessage;
+
+	const entryLabels = {
+		...config.defaultLabels,
+		...getCfLabels(config.cf),
+		...getRequestLabels(
+			(normalizedMessage as { request?: Request }).request || config.request,
+		),
+		...getTraceLabels(state.trace),
+		...labels,
+	} as LokiLabels<T>;
+	if (
+		overrides &&
+		!isLevelEnabled(
+			logLevel,
+			getLevelOverride(overrides, entryLabels) ?? getMinLevel(state),
+		)
+	) {
 		return;
 	}
 
-	const lokiMessage = config.format
-		? config.format(logLevel, normalizedMessage, labels)
-		: generateLokiMessage(config, logLevel, normalizedMessage, labels);
+	const { redactor } = state;
+	const entry: LogEntry<T> = {
+		level: logLevel,
+		timestamp: Date.now(),
+		message: redactor ? redactor.message(normalizedMessage) : normalizedMessage,
+		labels: redactor ? redactor.labels(entryLabels) : entryLabels,
+	};
 
-	const promise = sendWithRetry(config, lokiMessage);
+	const entries = state.filter ? state.filter.process(entry) : [entry];
+	const promises = entries.flatMap((e) => writeEntry(state, e));
+	if (promises.length === 0) {
+		return;
+	}
 
+	const promise = Promise.all(promises).then(() => {});
 	const effectiveCtx = ctx || config.ctx;
 	if (effectiveCtx) {
 		effectiveCtx.waitUntil(promise);
@@ -337,114 +548,149 @@ async function log<T extends string>(
 }
 
 /**
- * Generate a Loki message object
+ * Get the level set with setLevel on the logger or its parents,
+ * falling back to config.minLevel
+ *
+ * @param state
+ */
+function getMinLevel<T extends string>(state: LoggerState<T>): LogLevel {
+	for (let current: LevelState | undefined = state.level; current; ) {
+		if (current.level) {
+			return current.level;
+		}
+		current = current.parent;
+	}
+	return state.config.minLevel || "debug";
+}
+
+/**
+ * Write an entry to every transport that accepts its level
+ *
+ * @param state
+ * @param entry
+ * @returns delivery promises of the transports
+ */
+function writeEntry<T extends string>(
+	state: LoggerState<T>,
+	entry: LogEntry<T>,
+): Promise<void>[] {
+	const promises: Promise<void>[] = [];
+	for (const transport of state.transports) {
+		if (
+			transport.minLevel &&
+			!isLevelEnabled(entry.level, transport.minLevel)
+		) {
+			continue;
+		}
+		const promise = transport.write(entry);
+		if (promise) {
+			promises.push(promise);
+		}
+	}
+	return promises;
+}
+
+/**
+ * Normalize a log message into an object.
+ * Strings become { message } and Errors become { message, error }.
  *
- * @param config
- * @param logLevel
  * @param message
- * @param labels
  */
-function generateLokiMessage<T extends string>(
-	config: LokiConfig<T>,
-	logLevel: string,
-	message: object,
-	labels: LokiLabels<T>,
-): LokiMessage<T> {
+function normalizeMessage(message: LogMessage): object {
+	if (typeof message === "string") {
+		return { message };
+	}
+	if (isError(message)) {
+		return { message: message.message, error: message };
+	}
+	return message;
+}
+
+/**
+ * Get labels from request.cf
+ *
+ * @param cf
+ */
+function getCfLabels(cf?: CfProperties): Record<string, string> {
 	const cfLabels: Record<string, string> = {};
-	if (config.cf) {
-		if (config.cf.colo) cfLabels.cf_colo = config.cf.colo;
-		if (config.cf.country) cfLabels.cf_country = config.cf.country;
-		if (config.cf.city) cfLabels.cf_city = config.cf.city;
-		if (config.cf.asn) cfLabels.cf_asn = config.cf.asn.toString();
+	if (cf) {
+		if (cf.colo) cfLabels.cf_colo = cf.colo;
+		if (cf.country) cfLabels.cf_country = cf.country;
+		if (cf.city) cfLabels.cf_city = cf.city;
+		if (cf.asn) cfLabels.cf_asn = cf.asn.toString();
 	}
+	return cfLabels;
+}
 
+/**
+ * Get labels from a Request
+ *
+ * @param req
+ */
+function getRequestLabels(req?: Request): Record<string, string> {
 	const requestLabels: Record<string, string> = {};
-	const req = (message as { request?: Request }).request || config.request;
 	if (req) {
 		requestLabels.http_method = req.method;
 		requestLabels.http_url = req.url;
 		const userAgent = req.headers.get("user-agent");
 		if (userAgent) requestLabels.http_user_agent = userAgent;
 
+		const traceContext = getRequestTraceContext(req);
 		const rayId = req.headers.get("cf-ray");
-		if (rayId) requestLabels.trace_id = rayId;
+		const traceId = traceContext?.traceId ?? getRayTraceId(req) ?? rayId;
+		if (traceId) requestLabels.trace_id = traceId;
 
 		const requestId = req.headers.get("x-request-id");
 		if (requestId) requestLabels.request_id = requestId;
 	}
+	return requestLabels;
+}
 
+/**
+ * Get the trace context of a request from its traceparent header, or start
+ * a trace for it. A new trace ID is derived from the CF-Ray ID when there is
+ * one, so logs and traceHeaders() share one trace
+ *
+ * @param request
+ */
+function getRootTraceContext(request: Request): TraceContext {
+	const incoming = getRequestTraceContext(request);
+	if (incoming) {
+		return incoming;
+	}
 	return {
-		streams: [
-			{
-				stream: {
-					level: logLevel,
-					...config.defaultLabels,
-					...cfLabels,
-					...requestLabels,
-					...labels,
-				} as LokiLabels<T>,
-				values: [[`${Date.now().toString()}000000`, JSON.stringify(message)]],
-			},
-		],
+		traceId: getRayTraceId(request) ?? generateTraceId(),
+		spanId: generateSpanId(),
+		traceFlags: "01",
 	};
 }
 
 /**
- * Send with retry
+ * Turn a CF-Ray ID like 8a1b2c3d4e5f6789-NRT into the W3C trace ID
+ * 00000000000000008a1b2c3d4e5f6789
+ *
+ * @param request
  */
-async function sendWithRetry<T extends string>(
-	config: LokiConfig<T>,
-	lokiMessage: LokiMessage<T>,
-) {
-	const retries = config.retries || 0;
-	let lastError: unknown;
-
-	for (let i = 0; i <= retries; i++) {
-		try {
-			await sendToLoki(config, lokiMessage);
-			return; // Success
-		} catch (e) {
-			lastError = e;
-			if (i < retries) {
-				// Simple backoff: 100ms, 200ms, 400ms...
-				await new Promise((resolve) => setTimeout(resolve, 100 * 2 ** i));
-			}
-		}
-	}
-
-	if (config.onSendError) {
-		config.onSendError(lastError, lokiMessage);
-	} else {
-		console.error("Loki logging failed after retries:", lastError);
-	}
+function getRayTraceId(request: Request): string | undefined {
+	const rayId = /^([0-9a-f]{16})(-|$)/i.exec(
+		request.headers.get("cf-ray") ?? "",
+	)?.[1];
+	return rayId && !/^0+$/.test(rayId)
+		? rayId.toLowerCase().padStart(32, "0")
+		: undefined;
 }
 
 /**
- * Send a message to Loki
+ * Get trace_id and span_id labels of a trace context.
+ * The span ID of an incoming request belongs to the caller and is omitted.
  *
- * @param config
- * @param lokiMessage
+ * @param trace
  */
-async function sendToLoki<T extends string>(
-	config: LokiConfig<T>,
-	lokiMessage: LokiMessage<T>,
-) {
-	if (!config.lokiHost || !config.lokiUser || !config.lokiToken) {
-		throw new Error("Loki configuration missing (host, user, or token)");
-	}
-
-	const response = await fetch(`https://${config.lokiHost}/loki/api/v1/push`, {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/json",
-			Authorization: `Basic ${btoa(`${config.lokiUser}:${config.lokiToken}`)}`,
-		},
-		body: JSON.stringify(lokiMessage),
-	});
-
-	if (!response.ok) {
-		throw new Error(
-			`Loki push failed: ${response.status} ${response.statusText}`,
-		);
+function getTraceLabels(trace?: TraceContext): Record<string, string> {
+	if (!trace) {
+		return {};
 	}
+	return trace.remote
+		? { trace_id: trace.traceId }
+		: { trace_id: trace.traceId, span_id: trace.spanId };
 }
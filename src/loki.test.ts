@@ -0,0 +1,300 @@
+import { gunzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getLokiLogger } from "./logger";
+import { type LokiEncoding, lokiTransport } from "./loki";
+
+describe("Loki transport", () => {
+	const fetchCalls = () =>
+		(
+			fetch as unknown as {
+				mock: {
+					calls: [string, { headers: Record<string, string>; body: string }][];
+				};
+			}
+		).mock.calls;
+
+	beforeEach(() => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Endpoints", () => {
+		it.each([
+			["http://localhost:3100", "http://localhost:3100/loki/api/v1/push"],
+			["http://localhost:3100/", "http://localhost:3100/loki/api/v1/push"],
+			[
+				"https://example.com/logs-prefix",
+				"https://example.com/logs-prefix/loki/api/v1/push",
+			],
+			[
+				"https://example.com/logs/loki/api/v1/push",
+				"https://example.com/logs/loki/api/v1/push",
+			],
+		])("should push %s to %s", async (lokiUrl, expected) => {
+			const logger = getLokiLogger({
+				transports: [lokiTransport({ lokiUrl })],
+			});
+			await logger.info("test");
+
+			expect(fetchCalls()[0][0]).toBe(expected);
+		});
+
+		it("should prefer lokiUrl over lokiHost", async () => {
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiHost: "host.example.com",
+						lokiUrl: "http://url.example.com",
+					}),
+				],
+			});
+			await logger.info("test");
+
+			expect(fetchCalls()[0][0]).toBe(
+				"http://url.example.com/loki/api/v1/push",
+			);
+		});
+
+		it("should read a full URL from LOKI_URL", async () => {
+			process.env.LOKI_URL = "http://loki.internal:3100/prefix";
+			const logger = getLokiLogger({ transports: [lokiTransport()] });
+			await logger.info("test");
+
+			expect(fetchCalls()[0][0]).toBe(
+				"http://loki.internal:3100/prefix/loki/api/v1/push",
+			);
+			delete process.env.LOKI_URL;
+		});
+
+		it("should report a missing endpoint", async () => {
+			const onSendError = vi.fn();
+			const logger = getLokiLogger({
+				transports: [lokiTransport({ onSendError })],
+			});
+			await logger.info("test");
+
+			expect(fetch).not.toHaveBeenCalled();
+			expect(onSendError).toHaveBeenCalledWith(
+				new Error("Loki configuration missing (host or url)"),
+				expect.anything(),
+			);
+		});
+	});
+
+	describe("Authentication", () => {
+		it("should push without auth when no credentials are set", async () => {
+			const logger = getLokiLogger({
+				transports: [lokiTransport({ lokiUrl: "http://localhost:3100" })],
+			});
+			await logger.info("test");
+
+			expect(fetchCalls()[0][1].headers).toEqual({
+				"Content-Type": "application/json",
+			});
+		});
+
+		it("should use bearer auth with a token only", async () => {
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({ lokiUrl: "http://localhost:3100", lokiToken: "t" }),
+				],
+			});
+			await logger.info("test");
+
+			expect(fetchCalls()[0][1].headers.Authorization).toBe("Bearer t");
+		});
+
+		it("should use the configured auth scheme", async () => {
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiUrl: "http://localhost:3100",
+						lokiUser: "u",
+						lokiToken: "t",
+						lokiAuth: "none",
+					}),
+				],
+			});
+			await logger.info("test");
+
+			expect(fetchCalls()[0][1].headers.Authorization).toBeUndefined();
+		});
+
+		it("should require user and token for basic auth", async () => {
+			const onSendError = vi.fn();
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiUrl: "http://localhost:3100",
+						lokiToken: "t",
+						lokiAuth: "basic",
+						onSendError,
+					}),
+				],
+			});
+			await logger.info("test");
+
+			expect(onSendError).toHaveBeenCalledWith(
+				new Error("Loki configuration missing (user or token)"),
+				expect.anything(),
+			);
+		});
+	});
+
+	describe("Headers", () => {
+		it("should send the tenant and extra headers", async () => {
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiUrl: "http://localhost:3100",
+						lokiTenantId: "team-a",
+						lokiHeaders: { "X-Custom": "1" },
+					}),
+				],
+			});
+			await logger.info("test");
+
+			expect(fetchCalls()[0][1].headers).toEqual({
+				"Content-Type": "application/json",
+				"X-Scope-OrgID": "team-a",
+				"X-Custom": "1",
+			});
+		});
+
+		it("should read the tenant and auth scheme from env", async () => {
+			process.env.LOKI_TENANT_ID = "env-tenant";
+			process.env.LOKI_AUTH = "none";
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiUrl: "http://localhost:3100",
+						lokiUser: "u",
+						lokiToken: "t",
+					}),
+				],
+			});
+			await logger.info("test");
+
+			expect(fetchCalls()[0][1].headers).toEqual({
+				"Content-Type": "application/json",
+				"X-Scope-OrgID": "env-tenant",
+			});
+			delete process.env.LOKI_TENANT_ID;
+			delete process.env.LOKI_AUTH;
+		});
+	});
+
+	describe("Custom fetch", () => {
+		it("should push through a fetch function", async () => {
+			const customFetch = vi.fn(async () => new Response(null));
+			const logger = getLokiLogger({
+				lokiUrl: "http://localhost:3100",
+				fetcher: customFetch,
+			});
+			vi.spyOn(console, "log").mockImplementation(() => {});
+			await logger.info("test");
+
+			expect(fetch).not.toHaveBeenCalled();
+			expect(customFetch).toHaveBeenCalledWith(
+				"http://localhost:3100/loki/api/v1/push",
+				expect.objectContaining({ method: "POST" }),
+			);
+		});
+
+		it("should push through a service binding with this bound", async () => {
+			const binding = {
+				calls: [] as string[],
+				async fetch(this: { calls: string[] }, input: string) {
+					this.calls.push(input);
+					return new Response(null);
+				},
+			};
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({ lokiUrl: "https://log-gateway", fetcher: binding }),
+				],
+			});
+			await logger.info("test");
+
+			expect(fetch).not.toHaveBeenCalled();
+			expect(binding.calls).toEqual(["https://log-gateway/loki/api/v1/push"]);
+		});
+
+		it("should retry and batch through the custom fetch", async () => {
+			let callCount = 0;
+			const customFetch = vi.fn(async () => {
+				callCount++;
+				return new Response(null, { status: callCount < 2 ? 500 : 204 });
+			});
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiUrl: "http://localhost:3100",
+						fetcher: customFetch,
+						retries: 2,
+						batch: true,
+					}),
+				],
+			});
+			await logger.info("one");
+			await logger.info("two");
+			await logger.flush();
+
+			expect(customFetch).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("Encoding", () => {
+		const send = async (encoding?: LokiEncoding) => {
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiUrl: "http://localhost:3100",
+						encoding,
+						structuredMetadataKeys: [],
+					}),
+				],
+			});
+			await logger.info("test", { app: "api" });
+			const [, init] = fetchCalls()[0] as unknown as [
+				string,
+				{ headers: Record<string, string>; body: string | ArrayBuffer },
+			];
+			return init;
+		};
+
+		it("should send JSON by default", async () => {
+			const { headers, body } = await send();
+
+			expect(headers["Content-Type"]).toBe("application/json");
+			expect(headers["Content-Encoding"]).toBeUndefined();
+			expect(typeof body).toBe("string");
+		});
+
+		it("should gzip the JSON body", async () => {
+			const { headers, body } = await send("gzip");
+
+			expect(headers["Content-Type"]).toBe("application/json");
+			expect(headers["Content-Encoding"]).toBe("gzip");
+			const json = JSON.parse(
+				gunzipSync(Buffer.from(body as ArrayBuffer)).toString(),
+			);
+			expect(json.streams[0].stream).toEqual({ level: "info", app: "api" });
+		});
+
+		it("should send a snappy-compressed protobuf body", async () => {
+			const { headers, body } = await send("protobuf");
+
+			expect(headers["Content-Type"]).toBe("application/x-protobuf");
+			expect(headers["Content-Encoding"]).toBeUndefined();
+			const bytes = Buffer.from(body as ArrayBuffer);
+			expect(bytes.includes('{app="api", level="info"}')).toBe(true);
+			expect(bytes.includes('{"message":"test"}')).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,624 @@
+import { type Batcher, createBatcher, resolveBatchThresholds } from "./batch";
+import { withoutCapture } from "./capture";
+import {
+	getLokiApiUrl,
+	getLokiAuthHeaders,
+	resolveLokiConfig,
+} from "./connection";
+import { encodePushRequest, gzip, snappyCompress } from "./encoding";
+import {
+	createFallbackRecord,
+	DEFAULT_FALLBACK_MAX_AGE_MS,
+	DEFAULT_FALLBACK_MAX_RECORDS,
+	type FallbackConfig,
+	type FallbackRecord,
+} from "./fallback";
+import { type FetcherLike, type FetchLike, fetchWith } from "./fetch";
+import {
+	applyLabelKeys,
+	createLabelGuard,
+	type LabelGuard,
+	type LabelLimitsConfig,
+	sanitizeLabels,
+} from "./labels";
+import type { LogLevel } from "./levels";
+import type { LokiLabels } from "./logger";
+import {
+	type CircuitBreakerConfig,
+	createRetrySender,
+	isRetryableError,
+	parseRetryAfter,
+	type RetryPolicy,
+	sendWithRetry,
+} from "./retry";
+import { safeStringify } from "./serialize";
+import type { LogEntry, Transport } from "./transports";
+
+/**
+ * Loki transport config
+ */
+export type LokiTransportConfig<T extends string = string> = {
+	/**
+	 * Loki host, pushed to https://{lokiHost}/loki/api/v1/push
+	 */
+	lokiHost?: string;
+	/**
+	 * Loki URL, e.g. http://localhost:3100 or https://example.com/loki-prefix.
+	 * /loki/api/v1/push is appended unless the URL already ends with it.
+	 * Takes precedence over lokiHost
+	 */
+	lokiUrl?: string;
+	lokiToken?: string;
+	lokiUser?: string;
+	/**
+	 * Authorization scheme (default: basic with user and token,
+	 * bearer with token only, none otherwise)
+	 */
+	lokiAuth?: LokiAuth;
+	/**
+	 * Tenant sent as X-Scope-OrgID for multi-tenant Loki
+	 */
+	lokiTenantId?: string;
+	/**
+	 * Extra HTTP headers sent with every push
+	 */
+	lokiHeaders?: Record<string, string>;
+	/**
+	 * Custom fetch function or service binding used for every request
+	 * (default: global fetch)
+	 */
+	fetcher?: FetchLike | FetcherLike;
+	/**
+	 * Minimum log level to send to Loki
+	 */
+	minLevel?: LogLevel;
+	/**
+	 * Number of retries for fetch (default: 0)
+	 */
+	retries?: number;
+	/**
+	 * Callback when fetch fails or the circuit breaker is open.
+	 * Failed pushes are reported with a LokiPushError
+	 */
+	onSendError?: (
+		error: unknown,
+		message: LokiMessage<T>,
+	) => void | Promise<void>;
+	/**
+	 * Persist messages that could not be delivered after all retries.
+	 * Replay them with replayLokiFallback
+	 */
+	fallback?: FallbackConfig<LokiMessage<T>>;
+	/**
+	 * Backoff, jitter and time budget of retries.
+	 * 4xx responses other than 408 and 429 are not retried
+	 */
+	retryPolicy?: RetryPolicy;
+	/**
+	 * Stop pushing to a Loki that keeps failing.
+	 * `true` uses the default thresholds
+	 */
+	circuitBreaker?: boolean | CircuitBreakerConfig;
+	/**
+	 * Custom formatter for Loki message
+	 */
+	format?: (
+		logLevel: LogLevel,
+		message: object,
+		labels: LokiLabels<T>,
+	) => LokiMessage<T>;
+	/**
+	 * Buffer logs and push them to Loki in one request.
+	 * `true` uses the default thresholds. Call `flush()` to push the rest.
+	 */
+	batch?: boolean | LokiBatchConfig;
+	/**
+	 * Label keys sent as Loki structured metadata instead of stream labels.
+	 * Requires Loki 3
+	 * (default: http_url, http_user_agent, trace_id, span_id, request_id)
+	 */
+	structuredMetadataKeys?: string[];
+	/**
+	 * Limits on stream labels: value length, number of labels and distinct
+	 * values per label. Label keys are always normalized to Loki's rules
+	 */
+	labelLimits?: LabelLimitsConfig;
+	/**
+	 * Message fields promoted to stream labels, e.g. tenant or route.
+	 * Applied before format
+	 */
+	labelKeys?: T[];
+	/**
+	 * Labels demoted into the log line, e.g. user_id.
+	 * Applied before format
+	 */
+	bodyKeys?: T[];
+	/**
+	 * Push body encoding (default: json).
+	 * gzip compresses the JSON body with CompressionStream,
+	 * protobuf sends a snappy-compressed logproto PushRequest
+	 */
+	encoding?: LokiEncoding;
+};
+
+/**
+ * Push body encoding for Loki
+ */
+export type LokiEncoding = "json" | "gzip" | "protobuf";
+
+/**
+ * Authorization scheme for Loki
+ */
+export type LokiAuth = "basic" | "bearer" | "none";
+
+/**
+ * Batching thresholds. A push happens when any of them is reached.
+ */
+export type LokiBatchConfig = {
+	/**
+	 * Maximum number of buffered entries (default: 100)
+	 */
+	maxEntries?: number;
+	/**
+	 * Maximum size of buffered entries in bytes (default: 1MB)
+	 */
+	maxBytes?: number;
+	/**
+	 * Maximum age of the oldest buffered entry in ms (default: 1000)
+	 */
+	maxWaitMs?: number;
+};
+
+/**
+ * High-cardinality request labels sent as structured metadata by default
+ */
+export const DEFAULT_STRUCTURED_METADATA_KEYS = [
+	"http_url",
+	"http_user_agent",
+	"trace_id",
+	"span_id",
+	"request_id",
+];
+
+/**
+ * Loki log entry: timestamp in ns, log line and optional structured metadata
+ */
+export type LokiValue =
+	| [string, string]
+	| [string, string, Record<string, string>];
+
+/**
+ * Loki stream
+ */
+export type LokiStream<T extends string = string> = {
+	stream: LokiLabels<T>;
+	values: LokiValue[];
+};
+
+/**
+ * Loki message
+ */
+export type LokiMessage<T extends string = string> = {
+	streams: LokiStream<T>[];
+};
+
+/**
+ * Error thrown when Loki rejects a push
+ */
+export class LokiPushError extends Error {
+	/**
+	 * HTTP status code
+	 */
+	readonly status: number;
+	/**
+	 * Response body, e.g. "entry out of order"
+	 */
+	readonly body: string;
+	/**
+	 * Delay requested by a Retry-After header in ms
+	 */
+	readonly retryAfterMs?: number;
+
+	constructor(
+		status: number,
+		statusText: string,
+		body = "",
+		retryAfterMs?: number,
+	) {
+		super(`Loki push failed: ${status} ${statusText}`);
+		this.name = "LokiPushError";
+		this.status = status;
+		this.body = body;
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+/**
+ * Create a transport that pushes logs to the Loki push API.
+ * Endpoint, credentials and tenant fall back to the LOKI_* environment
+ * variables (LOKI_HOST, LOKI_URL, LOKI_USER, LOKI_TOKEN, LOKI_AUTH,
+ * LOKI_TENANT_ID).
+ *
+ * @param config
+ */
+export const lokiTransport = <T extends string = string>(
+	config: LokiTransportConfig<T> = {},
+): Transport<T> => {
+	const mergedConfig = resolveLokiConfig(config);
+	const batcher = createLokiBatcher(mergedConfig);
+	const labelGuard = config.labelLimits
+		? getLabelGuard(mergedConfig, config.labelLimits)
+		: undefined;
+
+	return {
+		name: "loki",
+		minLevel: config.minLevel,
+		write: (entry) => {
+			const labeled = applyLabelKeys(entry, mergedConfig);
+			return batcher.add(
+				mergedConfig.format
+					? mergedConfig.format(labeled.level, labeled.message, labeled.labels)
+					: generateLokiMessage(mergedConfig, labeled, labelGuard),
+			);
+		},
+		flush: () => batcher.flush(),
+	};
+};
+
+/**
+ * Label guards shared by the transports of one push URL and limits, so the
+ * cardinality of labels is tracked across per-request loggers
+ */
+const labelGuards = new Map<string, LabelGuard>();
+
+/**
+ * Get the shared label guard of a push URL and limits, creating it on
+ * first use
+ *
+ * @param config
+ * @param labelLimits
+ */
+function getLabelGuard<T extends string>(
+	config: LokiTransportConfig<T>,
+	labelLimits: LabelLimitsConfig,
+): LabelGuard {
+	const url = getLokiApiUrl(config, "/push");
+	if (url === undefined) {
+		return createLabelGuard(labelLimits);
+	}
+	const key = `${url} ${safeStringify(labelLimits)}`;
+	let guard = labelGuards.get(key);
+	if (!guard) {
+		guard = createLabelGuard(labelLimits);
+		labelGuards.set(key, guard);
+	}
+	return guard;
+}
+
+/**
+ * Create the batcher that buffers Loki messages
+ *
+ * @param config
+ */
+function createLokiBatcher<T extends string>(
+	config: LokiTransportConfig<T>,
+): Batcher<LokiMessage<T>> {
+	const { fallback } = config;
+	const send = createRetrySender(
+		fallback
+			? {
+					...config,
+					onSendError: (error, lokiMessage) =>
+						saveToFallback(config, fallback, error, lokiMessage),
+				}
+			: config,
+		(lokiMessage: LokiMessage<T>) => sendToLoki(config, lokiMessage),
+		"Loki",
+		getLokiApiUrl(config, "/push"),
+	);
+	return createBatcher({
+		...resolveBatchThresholds(config.batch),
+		size: (lokiMessage) => JSON.stringify(lokiMessage).length,
+		send: (lokiMessages) => send(mergeLokiMessages(lokiMessages)),
+	});
+}
+
+/**
+ * Persist an undeliverable message, then report the failure
+ *
+ * @param config
+ * @param fallback
+ * @param error
+ * @param lokiMessage
+ */
+async function saveToFallback<T extends string>(
+	config: LokiTransportConfig<T>,
+	fallback: FallbackConfig<LokiMessage<T>>,
+	error: unknown,
+	lokiMessage: LokiMessage<T>,
+): Promise<void> {
+	let reported = error;
+	// Rejected pushes, e.g. 400 "entry too far behind", would fail again
+	if (isRetryable(config, error)) {
+		try {
+			await fallback.store.save(createFallbackRecord(lokiMessage));
+		} catch (saveError) {
+			reported = saveError;
+		}
+	}
+	if (config.onSendError) {
+		await config.onSendError(reported, lokiMessage);
+	} else if (reported !== error) {
+		withoutCapture(() =>
+			console.error("Loki fallback store failed:", reported),
+		);
+	} else if (!isRetryable(config, error)) {
+		withoutCapture(() => console.error("Loki rejected the push:", error));
+	}
+}
+
+/**
+ * Check if a failed push may succeed later, with the retry policy of the config
+ *
+ * @param config
+ * @param error
+ */
+function isRetryable<T extends string>(
+	config: LokiTransportConfig<T>,
+	error: unknown,
+): boolean {
+	return (config.retryPolicy?.isRetryable ?? isRetryableError)(error);
+}
+
+/**
+ * Result of a fallback replay, as record IDs
+ */
+export type FallbackReplayResult = {
+	delivered: string[];
+	/**
+	 * Expired or over the maxRecords cap
+	 */
+	dropped: string[];
+	/**
+	 * Rejected by Loki with a status that is not retried, e.g. 400
+	 * "entry too far behind". Removed like dropped records
+	 */
+	rejected: string[];
+	/**
+	 * Not delivered, kept for the next replay
+	 */
+	failed: string[];
+};
+
+/**
+ * Push the records of the fallback store to Loki, oldest first, with their
+ * original timestamps. Stops at the first failure that may succeed later
+ * to keep the order. Records Loki rejects are skipped.
+ * Delivered, rejected, expired and excess records are removed from the store.
+ * Pass records to replay them without loading (e.g. in a Queue consumer).
+ *
+ * @param config
+ * @param records
+ */
+export async function replayLokiFallback<T extends string = string>(
+	config: LokiTransportConfig<T>,
+	records?: FallbackRecord<LokiMessage<T>>[],
+): Promise<FallbackReplayResult> {
+	const { fallback } = config;
+	const resolved = resolveLokiConfig(config);
+	let pending = records;
+	if (!pending) {
+		if (!fallback?.store.load) {
+			throw new Error("Loki fallback store cannot be loaded, pass the records");
+		}
+		pending = await fallback.store.load();
+	}
+
+	const maxAgeMs = fallback?.maxAgeMs ?? DEFAULT_FALLBACK_MAX_AGE_MS;
+	const maxRecords = fallback?.maxRecords ?? DEFAULT_FALLBACK_MAX_RECORDS;
+	const now = Date.now();
+	const sorted = [...pending].sort((a, b) => (a.id < b.id ? -1 : 1));
+	const excess = Math.max(0, sorted.length - maxRecords);
+	const result: FallbackReplayResult = {
+		delivered: [],
+		dropped: [],
+		rejected: [],
+		failed: [],
+	};
+
+	for (const [i, record] of sorted.entries()) {
+		if (i < excess || now - record.createdAt > maxAgeMs) {
+			result.dropped.push(record.id);
+		} else if (result.failed.length > 0) {
+			result.failed.push(record.id);
+		} else {
+			const error = await sendWithRetry(
+				resolved,
+				record.payload,
+				(lokiMessage) => sendToLoki(resolved, lokiMessage),
+			);
+			if (error === undefined) {
+				result.delivered.push(record.id);
+			} else {
+				result[isRetryable(resolved, error) ? "failed" : "rejected"].push(
+					record.id,
+				);
+			}
+		}
+	}
+
+	if (!records && fallback?.store.remove) {
+		const removed = [
+			...result.delivered,
+			...result.rejected,
+			...result.dropped,
+		];
+		if (removed.length > 0) {
+			await fallback.store.remove(removed);
+		}
+	}
+	return result;
+}
+
+/**
+ * Merge Loki messages into one, grouping entries with identical labels
+ * into the same stream
+ *
+ * @param lokiMessages
+ */
+function mergeLokiMessages<T extends string>(
+	lokiMessages: LokiMessage<T>[],
+): LokiMessage<T> {
+	const streams = new Map<string, LokiStream<T>>();
+
+	for (const lokiMessage of lokiMessages) {
+		for (const { stream, values } of lokiMessage.streams) {
+			const key = JSON.stringify(
+				Object.keys(stream)
+					.sort()
+					.map((name) => [name, stream[name]]),
+			);
+			const existing = streams.get(key);
+			if (existing) {
+				existing.values.push(...values);
+			} else {
+				streams.set(key, { stream, values: [...values] });
+			}
+		}
+	}
+
+	return { streams: Array.from(streams.values()) };
+}
+
+/**
+ * Generate a Loki message object
+ *
+ * @param config
+ * @param entry
+ */
+function generateLokiMessage<T extends string>(
+	config: LokiTransportConfig<T>,
+	entry: LogEntry<T>,
+	labelGuard?: LabelGuard,
+): LokiMessage<T> {
+	const allLabels = sanitizeLabels(
+		{ level: entry.level, ...entry.labels },
+		config.labelLimits?.maxValueLength,
+	);
+
+	const metadataKeys =
+		config.structuredMetadataKeys ?? DEFAULT_STRUCTURED_METADATA_KEYS;
+	let stream: Record<string, string> = {};
+	const metadata: Record<string, string> = {};
+	for (const [key, value] of Object.entries(allLabels)) {
+		if (metadataKeys.includes(key)) {
+			metadata[key] = value;
+		} else {
+			stream[key] = value;
+		}
+	}
+
+	let message = entry.message;
+	if (labelGuard) {
+		const guarded = labelGuard(stream);
+		stream = guarded.labels;
+		if (Object.keys(guarded.demoted).length > 0) {
+			message = { ...guarded.demoted, ...message };
+		}
+	}
+
+	const timestamp = `${entry.timestamp.toString()}000000`;
+	const line = safeStringify(message);
+
+	return {
+		streams: [
+			{
+				stream: stream as LokiLabels<T>,
+				values: [
+					Object.keys(metadata).length > 0
+						? [timestamp, line, metadata]
+						: [timestamp, line],
+				],
+			},
+		],
+	};
+}
+
+/**
+ * Encode a message as a push body with its content headers
+ *
+ * @param config
+ * @param lokiMessage
+ */
+async function encodeLokiBody<T extends string>(
+	config: LokiTransportConfig<T>,
+	lokiMessage: LokiMessage<T>,
+): Promise<{ body: string | ArrayBuffer; headers: Record<string, string> }> {
+	switch (config.encoding) {
+		case "gzip":
+			return {
+				body: await gzip(JSON.stringify(lokiMessage)),
+				headers: {
+					"Content-Type": "application/json",
+					"Content-Encoding": "gzip",
+				},
+			};
+		case "protobuf":
+			return {
+				body: snappyCompress(encodePushRequest(lokiMessage)),
+				headers: { "Content-Type": "application/x-protobuf" },
+			};
+		default:
+			return {
+				body: JSON.stringify(lokiMessage),
+				headers: { "Content-Type": "application/json" },
+			};
+	}
+}
+
+/**
+ * Send a message to Loki
+ *
+ * @param config
+ * @param lokiMessage
+ */
+async function sendToLoki<T extends string>(
+	config: LokiTransportConfig<T>,
+	lokiMessage: LokiMessage<T>,
+) {
+	const url = getLokiApiUrl(config, "/push");
+	if (!url) {
+		throw new Error("Loki configuration missing (host or url)");
+	}
+
+	const { body, headers } = await encodeLokiBody(config, lokiMessage);
+	Object.assign(headers, getLokiAuthHeaders(config));
+
+	const response = await fetchWith(config.fetcher, url, {
+		method: "POST",
+		headers: { ...headers, ...config.lokiHeaders },
+		body,
+	});
+
+	if (!response.ok) {
+		throw new LokiPushError(
+			response.status,
+			response.statusText,
+			await readBody(response),
+			parseRetryAfter(response.headers?.get("Retry-After")),
+		);
+	}
+}
+
+/**
+ * Read the response body of a failed push, if any
+ *
+ * @param response
+ */
+async function readBody(response: Response): Promise<string> {
+	try {
+		return (await response.text()).trim();
+	} catch (_e) {
+		return "";
+	}
+}
@@ -0,0 +1,337 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LokiLogger } from "./logger";
+import {
+	getQueueMessageLogger,
+	honoLogger,
+	withDurableObjectLogger,
+	withEmailLogger,
+	withLogger,
+	withQueueLogger,
+	withScheduledLogger,
+} from "./middleware";
+import { memoryTransport } from "./transports";
+
+describe("withLogger", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should log an access log and flush through waitUntil", async () => {
+		const dateNowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+		const memory = memoryTransport();
+		const flush = vi.fn(async () => {});
+		const waitUntil = vi.fn();
+		const handler = withLogger(
+			async (_request, env: { APP: string }, _ctx, logger) => {
+				await logger.info(`hello ${env.APP}`);
+				dateNowSpy.mockReturnValue(1042);
+				return new Response("ok", { headers: { "content-length": "2" } });
+			},
+			(env) => ({
+				transports: [memory, { write: () => {}, flush }],
+				defaultLabels: { app: env.APP },
+			}),
+		);
+
+		const response = await handler(
+			new Request("https://example.com/users?page=1", { method: "POST" }),
+			{ APP: "api" },
+			{ waitUntil },
+		);
+
+		expect(response.status).toBe(200);
+		expect(memory.entries.map((entry) => entry.level)).toEqual([
+			"info",
+			"info",
+		]);
+		expect(memory.entries[1]).toMatchObject({
+			labels: { app: "api", http_method: "POST" },
+			message: {
+				message: "POST /users 200",
+				http_status: 200,
+				duration_ms: 42,
+				response_size: 2,
+			},
+		});
+		expect(flush).toHaveBeenCalledTimes(1);
+		expect(waitUntil).toHaveBeenCalledTimes(1);
+	});
+
+	it("should log the access log level by status", async () => {
+		const memory = memoryTransport();
+		const handler = withLogger(
+			(request) =>
+				new Response(null, {
+					status: request.url.endsWith("missing") ? 404 : 503,
+				}),
+			{ transports: [memory] },
+		);
+		const ctx = { waitUntil: vi.fn() };
+
+		await handler(new Request("https://example.com/missing"), {}, ctx);
+		await handler(new Request("https://example.com/down"), {}, ctx);
+
+		expect(memory.entries.map((entry) => entry.level)).toEqual([
+			"warn",
+			"error",
+		]);
+	});
+
+	it("should log and rethrow uncaught exceptions", async () => {
+		const memory = memoryTransport();
+		const waitUntil = vi.fn();
+		const handler = withLogger(
+			() => {
+				throw new Error("boom");
+			},
+			{ transports: [memory] },
+		);
+
+		await expect(
+			handler(new Request("https://example.com/fail"), {}, { waitUntil }),
+		).rejects.toThrow("boom");
+
+		expect(memory.entries[0]).toMatchObject({
+			level: "error",
+			message: {
+				message: "Unhandled exception in GET /fail",
+				error: { message: "boom", name: "Error" },
+			},
+		});
+		expect(memory.entries[1]).toMatchObject({
+			level: "error",
+			message: { message: "GET /fail 500", http_status: 500 },
+		});
+		expect(waitUntil).toHaveBeenCalledTimes(1);
+	});
+
+	it("should push the request logs to Loki in one batch", async () => {
+		const fetcher = vi.fn(
+			async (_url: string, _init: RequestInit) => new Response(null),
+		);
+		const waitUntil = vi.fn();
+		const handler = withLogger(
+			async (_request, _env, _ctx, logger) => {
+				await logger.info("one");
+				await logger.info("two");
+				return new Response("ok");
+			},
+			{ lokiUrl: "http://loki", fetcher, console: false },
+		);
+
+		await handler(new Request("https://example.com/"), {}, { waitUntil });
+		expect(fetcher).not.toHaveBeenCalled();
+		await waitUntil.mock.calls[0][0];
+
+		expect(fetcher).toHaveBeenCalledTimes(1);
+		const body = JSON.parse(fetcher.mock.calls[0][1].body as string);
+		expect(
+			body.streams.flatMap((stream: { values: string[][] }) => stream.values),
+		).toHaveLength(3);
+	});
+});
+
+describe("honoLogger", () => {
+	const createContext = (request: Request, executionCtx?: unknown) => {
+		const vars: Record<string, unknown> = {};
+		return {
+			req: { raw: request },
+			env: {},
+			res: new Response(null, { status: 404 }),
+			error: undefined as Error | undefined,
+			get executionCtx() {
+				if (!executionCtx) {
+					throw new Error("This context has no ExecutionContext");
+				}
+				return executionCtx as { waitUntil: () => void };
+			},
+			set: (key: string, value: unknown) => {
+				vars[key] = value;
+			},
+			var: vars,
+		};
+	};
+
+	it("should expose the logger on c.var and log the response", async () => {
+		const memory = memoryTransport();
+		const waitUntil = vi.fn();
+		const c = createContext(new Request("https://example.com/items"), {
+			waitUntil,
+		});
+
+		await honoLogger({ transports: [memory] })(c, async () => {
+			await (c.var.logger as LokiLogger).info("handler");
+			c.res = new Response("[]", { status: 201 });
+		});
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ message: "handler" },
+			expect.objectContaining({
+				message: "GET /items 201",
+				http_status: 201,
+			}),
+		]);
+		expect(waitUntil).toHaveBeenCalledTimes(1);
+	});
+
+	it("should log errors caught by Hono and flush without executionCtx", async () => {
+		const memory = memoryTransport();
+		const flush = vi.fn(async () => {});
+		const c = createContext(new Request("https://example.com/items"));
+
+		await honoLogger({ transports: [memory, { write: () => {}, flush }] })(
+			c,
+			async () => {
+				c.error = new Error("db down");
+				c.res = new Response("Internal Server Error", { status: 500 });
+			},
+		);
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			expect.objectContaining({
+				message: "Unhandled exception in GET /items",
+			}),
+			expect.objectContaining({ message: "GET /items 500" }),
+		]);
+		expect(flush).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("Event handler wrappers", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should log scheduled handlers with the cron expression", async () => {
+		const dateNowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+		const memory = memoryTransport();
+		const waitUntil = vi.fn();
+		const scheduled = withScheduledLogger(
+			async (_controller, _env, _ctx, logger) => {
+				await logger.info("cleanup");
+				dateNowSpy.mockReturnValue(1300);
+			},
+			{ transports: [memory], defaultLabels: { app: "cron" } },
+		);
+
+		await scheduled(
+			{ cron: "*/5 * * * *", scheduledTime: Date.UTC(2024, 0, 1) },
+			{},
+			{ waitUntil },
+		);
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{
+				message: "Scheduled handler started",
+				scheduled_time: "2024-01-01T00:00:00.000Z",
+			},
+			{ message: "cleanup" },
+			expect.objectContaining({
+				message: "Scheduled handler finished",
+				duration_ms: 300,
+				status: "ok",
+			}),
+		]);
+		expect(memory.entries[1].labels).toMatchObject({
+			app: "cron",
+			handler: "scheduled",
+			cron: "*/5 * * * *",
+			span_id: expect.any(String),
+		});
+		expect(waitUntil).toHaveBeenCalledTimes(1);
+	});
+
+	it("should log queue batches and per-message fields", async () => {
+		const memory = memoryTransport();
+		const queue = withQueueLogger<string, unknown, { n: number }>(
+			async (batch, _env, _ctx, logger) => {
+				for (const message of batch.messages) {
+					await getQueueMessageLogger(logger, message).info("processed");
+				}
+			},
+			{ transports: [memory] },
+		);
+
+		await queue(
+			{
+				queue: "jobs",
+				messages: [
+					{ id: "m1", attempts: 1, body: { n: 1 } },
+					{ id: "m2", attempts: 3, body: { n: 2 } },
+				],
+			},
+			{},
+			{ waitUntil: vi.fn() },
+		);
+
+		expect(memory.entries[0]).toMatchObject({
+			labels: { handler: "queue", queue: "jobs" },
+			message: { message: "Queue handler started", batch_size: 2 },
+		});
+		expect(memory.entries.slice(1, 3).map((entry) => entry.message)).toEqual([
+			{ message: "processed", message_id: "m1", attempts: 1 },
+			{ message: "processed", message_id: "m2", attempts: 3 },
+		]);
+	});
+
+	it("should log and rethrow failures of email handlers", async () => {
+		const memory = memoryTransport();
+		const email = withEmailLogger(
+			() => {
+				throw new Error("rejected");
+			},
+			{ transports: [memory] },
+		);
+
+		await expect(
+			email(
+				{ from: "a@example.com", to: "b@example.com", rawSize: 10 },
+				{},
+				{ waitUntil: vi.fn() },
+			),
+		).rejects.toThrow("rejected");
+
+		expect(memory.entries[1]).toMatchObject({
+			level: "error",
+			labels: { handler: "email" },
+			message: {
+				message: "Email handler failed",
+				email_from: "a@example.com",
+				status: "error",
+				status_message: "rejected",
+				error: { message: "rejected" },
+			},
+		});
+	});
+
+	it("should flush Durable Object logs before returning", async () => {
+		const memory = memoryTransport();
+		const flush = vi.fn(async () => {});
+		const fetch = withDurableObjectLogger(
+			{ id: { toString: () => "abc123", name: "room-1" } },
+			async (_request, logger) => {
+				await logger.info("joined");
+				return new Response("ok");
+			},
+			{ transports: [memory, { write: () => {}, flush }] },
+		);
+
+		const response = await fetch(new Request("https://do/join"));
+
+		expect(response.status).toBe(200);
+		expect(flush).toHaveBeenCalledTimes(1);
+		expect(memory.entries[0]).toMatchObject({
+			labels: { handler: "durable_object", http_method: "GET" },
+			message: {
+				message: "Durable Object request started",
+				durable_object_id: "abc123",
+				durable_object_name: "room-1",
+			},
+		});
+		expect(memory.entries[1].message).toEqual({
+			durable_object_id: "abc123",
+			durable_object_name: "room-1",
+			message: "joined",
+		});
+	});
+});
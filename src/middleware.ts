@@ -0,0 +1,436 @@
+import type { LogLevel } from "./levels";
+import {
+	type CfProperties,
+	type ExecutionContext,
+	getLokiLogger,
+	type LokiConfig,
+	type LokiLabels,
+	type LokiLogger,
+} from "./logger";
+import { isError } from "./serialize";
+
+/**
+ * Logger config, or a function building it from the Worker env
+ */
+export type MiddlewareConfig<T extends string, E> =
+	| LokiConfig<T>
+	| ((env: E) => LokiConfig<T>);
+
+/**
+ * Workers fetch handler receiving the request logger
+ */
+export type LoggedFetchHandler<T extends string, E> = (
+	request: Request,
+	env: E,
+	ctx: ExecutionContext,
+	logger: LokiLogger<T>,
+) => Promise<Response> | Response;
+
+/**
+ * Hono context variables set by honoLogger
+ */
+export type LoggerVariables<T extends string = string> = {
+	logger: LokiLogger<T>;
+};
+
+/**
+ * Minimal Hono context used by honoLogger
+ */
+type HonoContextLike<E> = {
+	req: { raw: Request };
+	env: E;
+	res: Response;
+	error?: Error;
+	executionCtx: ExecutionContext;
+	set: (key: "logger", value: LokiLogger) => void;
+};
+
+/**
+ * Cloudflare Workers ScheduledController
+ */
+export type ScheduledControllerLike = {
+	cron: string;
+	/**
+	 * Unix time in ms
+	 */
+	scheduledTime: number;
+};
+
+/**
+ * Cloudflare Queues Message
+ */
+export type QueueMessageLike<B = unknown> = {
+	id: string;
+	attempts: number;
+	body: B;
+};
+
+/**
+ * Cloudflare Queues MessageBatch
+ */
+export type MessageBatchLike<B = unknown> = {
+	queue: string;
+	messages: readonly QueueMessageLike<B>[];
+};
+
+/**
+ * Cloudflare Email Workers ForwardableEmailMessage
+ */
+export type EmailMessageLike = {
+	from: string;
+	to: string;
+	rawSize?: number;
+};
+
+/**
+ * Durable Object state (this.ctx or this.state)
+ */
+export type DurableObjectStateLike = {
+	id: { toString(): string; name?: string };
+};
+
+/**
+ * Workers event handler receiving a logger
+ */
+export type LoggedEventHandler<T extends string, E, Ev> = (
+	event: Ev,
+	env: E,
+	ctx: ExecutionContext,
+	logger: LokiLogger<T>,
+) => Promise<void> | void;
+
+/**
+ * Wrap a Workers fetch handler with a request logger.
+ * Logs an access log, logs and rethrows uncaught exceptions,
+ * and flushes through ctx.waitUntil.
+ * Logs are batched unless config.batch is false.
+ *
+ * @param handler
+ * @param config
+ */
+export const withLogger =
+	<T extends string = string, E = unknown>(
+		handler: LoggedFetchHandler<T, E>,
+		config: MiddlewareConfig<T, E> = {},
+	) =>
+	async (
+		request: Request,
+		env: E,
+		ctx: ExecutionContext,
+	): Promise<Response> => {
+		const logger = getRequestLogger(request, ctx, resolveConfig(config, env));
+		const start = Date.now();
+		try {
+			const response = await handler(request, env, ctx, logger);
+			await logAccess(logger, request, start, response);
+			return response;
+		} catch (error) {
+			await logAccess(logger, request, start, undefined, error);
+			throw error;
+		} finally {
+			ctx.waitUntil(logger.flush());
+		}
+	};
+
+/**
+ * Hono middleware setting a request logger on c.var.logger.
+ * Logs an access log and errors caught by Hono, then flushes.
+ *
+ * @param config
+ */
+export const honoLogger =
+	<T extends string = string, E = unknown>(
+		config: MiddlewareConfig<T, E> = {},
+	) =>
+	async (c: HonoContextLike<E>, next: () => Promise<void>): Promise<void> => {
+		const ctx = getExecutionContext(c);
+		const logger = getRequestLogger(
+			c.req.raw,
+			ctx,
+			resolveConfig(config, c.env),
+		);
+		c.set("logger", logger as LokiLogger);
+		const start = Date.now();
+		try {
+			await next();
+			await logAccess(logger, c.req.raw, start, c.res, c.error);
+		} catch (error) {
+			await logAccess(logger, c.req.raw, start, undefined, error);
+			throw error;
+		} finally {
+			if (ctx) {
+				ctx.waitUntil(logger.flush());
+			} else {
+				await logger.flush();
+			}
+		}
+	};
+
+/**
+ * Wrap a scheduled (cron trigger) handler with a logger labeled with the cron expression
+ *
+ * @param handler
+ * @param config
+ */
+export const withScheduledLogger =
+	<T extends string = string, E = unknown>(
+		handler: LoggedEventHandler<T, E, ScheduledControllerLike>,
+		config: MiddlewareConfig<T, E> = {},
+	) =>
+	(
+		controller: ScheduledControllerLike,
+		env: E,
+		ctx: ExecutionContext,
+	): Promise<void> => {
+		const logger = getEventLogger(resolveConfig(config, env), ctx, {
+			handler: "scheduled",
+			cron: controller.cron,
+		});
+		return runHandler(
+			logger,
+			"Scheduled handler",
+			{ scheduled_time: new Date(controller.scheduledTime).toISOString() },
+			ctx,
+			(spanLogger) => handler(controller, env, ctx, spanLogger),
+		);
+	};
+
+/**
+ * Wrap a queue consumer with a logger labeled with the queue name.
+ * Use getQueueMessageLogger for logs about a single message.
+ *
+ * @param handler
+ * @param config
+ */
+export const withQueueLogger =
+	<T extends string = string, E = unknown, B = unknown>(
+		handler: LoggedEventHandler<T, E, MessageBatchLike<B>>,
+		config: MiddlewareConfig<T, E> = {},
+	) =>
+	(
+		batch: MessageBatchLike<B>,
+		env: E,
+		ctx: ExecutionContext,
+	): Promise<void> => {
+		const logger = getEventLogger(resolveConfig(config, env), ctx, {
+			handler: "queue",
+			queue: batch.queue,
+		});
+		return runHandler(
+			logger,
+			"Queue handler",
+			{ batch_size: batch.messages.length },
+			ctx,
+			(spanLogger) => handler(batch, env, ctx, spanLogger),
+		);
+	};
+
+/**
+ * Get a logger adding the ID and attempts of a queue message to every log
+ *
+ * @param logger
+ * @param message
+ */
+export const getQueueMessageLogger = <T extends string = string>(
+	logger: LokiLogger<T>,
+	message: QueueMessageLike,
+): LokiLogger<T> =>
+	logger.child(undefined, {
+		message_id: message.id,
+		attempts: message.attempts,
+	});
+
+/**
+ * Wrap an email handler with a logger
+ *
+ * @param handler
+ * @param config
+ */
+export const withEmailLogger =
+	<
+		T extends string = string,
+		E = unknown,
+		M extends EmailMessageLike = EmailMessageLike,
+	>(
+		handler: LoggedEventHandler<T, E, M>,
+		config: MiddlewareConfig<T, E> = {},
+	) =>
+	(message: M, env: E, ctx: ExecutionContext): Promise<void> => {
+		const logger = getEventLogger(resolveConfig(config, env), ctx, {
+			handler: "email",
+		});
+		return runHandler(
+			logger,
+			"Email handler",
+			{
+				email_from: message.from,
+				email_to: message.to,
+				email_size: message.rawSize,
+			},
+			ctx,
+			(spanLogger) => handler(message, env, ctx, spanLogger),
+		);
+	};
+
+/**
+ * Wrap the fetch method of a Durable Object with a request logger.
+ * Logs are flushed before the response is returned.
+ *
+ * @param state
+ * @param handler
+ * @param config
+ */
+export const withDurableObjectLogger =
+	<T extends string = string>(
+		state: DurableObjectStateLike,
+		handler: (
+			request: Request,
+			logger: LokiLogger<T>,
+		) => Promise<Response> | Response,
+		config: LokiConfig<T> = {},
+	) =>
+	(request: Request): Promise<Response> => {
+		const logger = getRequestLogger(request, undefined, {
+			...config,
+			defaultLabels: {
+				...config.defaultLabels,
+				handler: "durable_object",
+			} as LokiLabels<T>,
+		}).child(undefined, {
+			durable_object_id: state.id.toString(),
+			durable_object_name: state.id.name,
+		});
+		return runHandler(
+			logger,
+			"Durable Object request",
+			{},
+			undefined,
+			(spanLogger) => handler(request, spanLogger),
+		);
+	};
+
+function resolveConfig<T extends string, E>(
+	config: MiddlewareConfig<T, E>,
+	env: E,
+): LokiConfig<T> {
+	return typeof config === "function" ? config(env) : config;
+}
+
+function getRequestLogger<T extends string>(
+	request: Request,
+	ctx: ExecutionContext | undefined,
+	config: LokiConfig<T>,
+): LokiLogger<T> {
+	return getLokiLogger<T>({
+		cf: (request as Request & { cf?: CfProperties }).cf,
+		batch: true,
+		...config,
+		request,
+		ctx: ctx ?? config.ctx,
+	});
+}
+
+function getEventLogger<T extends string>(
+	config: LokiConfig<T>,
+	ctx: ExecutionContext,
+	labels: Record<string, string>,
+): LokiLogger<T> {
+	return getLokiLogger<T>({
+		batch: true,
+		...config,
+		ctx,
+		defaultLabels: {
+			...config.defaultLabels,
+			...labels,
+		} as LokiLabels<T>,
+	});
+}
+
+/**
+ * Run a handler inside a span like wrap(): log its start, then its end or
+ * failure with duration_ms, and flush through ctx.waitUntil (or before
+ * returning without ctx)
+ *
+ * @param logger
+ * @param name
+ * @param fields
+ * @param ctx
+ * @param run
+ */
+async function runHandler<T extends string, R>(
+	logger: LokiLogger<T>,
+	name: string,
+	fields: Record<string, unknown>,
+	ctx: ExecutionContext | undefined,
+	run: (logger: LokiLogger<T>) => Promise<R> | R,
+): Promise<R> {
+	const span = logger.startSpan(name);
+	try {
+		await span.logger.info({ message: `${name} started`, ...fields });
+		const result = await run(span.logger);
+		span.setStatus("ok");
+		await span.end({ message: `${name} finished`, ...fields });
+		return result;
+	} catch (error) {
+		span.setStatus("error", isError(error) ? error.message : String(error));
+		await span.end({ message: `${name} failed`, ...fields, error });
+		throw error;
+	} finally {
+		if (ctx) {
+			ctx.waitUntil(logger.flush());
+		} else {
+			await logger.flush();
+		}
+	}
+}
+
+/**
+ * c.executionCtx throws outside of Workers
+ *
+ * @param c
+ */
+function getExecutionContext<E>(
+	c: HonoContextLike<E>,
+): ExecutionContext | undefined {
+	try {
+		return c.executionCtx;
+	} catch (_e) {
+		return undefined;
+	}
+}
+
+/**
+ * Log the uncaught error, if any, and the access log.
+ * The access log level is error for 5xx and exceptions, warn for 4xx.
+ *
+ * @param logger
+ * @param request
+ * @param start
+ * @param response
+ * @param error
+ */
+async function logAccess<T extends string>(
+	logger: LokiLogger<T>,
+	request: Request,
+	start: number,
+	response?: Response,
+	error?: unknown,
+): Promise<void> {
+	const url = new URL(request.url);
+	if (error) {
+		await logger.error({
+			message: `Unhandled exception in ${request.method} ${url.pathname}`,
+			error,
+		});
+	}
+	const status = response ? response.status : 500;
+	const size = response?.headers.get("content-length");
+	const level: LogLevel =
+		status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+	await logger[level]({
+		message: `${request.method} ${url.pathname} ${status}`,
+		http_status: status,
+		duration_ms: Date.now() - start,
+		response_size: size ? Number(size) : undefined,
+	});
+}
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getLokiLogger } from "./logger";
+import { otlpTransport } from "./otlp";
+
+describe("OTLP transport", () => {
+	const fetchCalls = () =>
+		(
+			fetch as unknown as {
+				mock: {
+					calls: [string, { headers: Record<string, string>; body: string }][];
+				};
+			}
+		).mock.calls;
+
+	beforeEach(() => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+		vi.spyOn(Date, "now").mockReturnValue(1482363367071);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should export entries as an ExportLogsServiceRequest", async () => {
+		const logger = getLokiLogger({
+			defaultLabels: { app: "api" },
+			transports: [
+				otlpTransport({
+					endpoint: "https://collector.example.com/v1/logs",
+					headers: { Authorization: "Bearer token" },
+				}),
+			],
+		});
+		await logger.warn({ message: "slow" }, { route: "/api" });
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		const [url, init] = fetchCalls()[0];
+		expect(url).toBe("https://collector.example.com/v1/logs");
+		expect(init.headers).toEqual({
+			"Content-Type": "application/json",
+			Authorization: "Bearer token",
+		});
+		expect(JSON.parse(init.body)).toEqual({
+			resourceLogs: [
+				{
+					resource: {
+						attributes: [{ key: "app", value: { stringValue: "api" } }],
+					},
+					scopeLogs: [
+						{
+							scope: { name: "cloki" },
+							logRecords: [
+								{
+									timeUnixNano: "1482363367071000000",
+									observedTimeUnixNano: "1482363367071000000",
+									severityNumber: 13,
+									severityText: "WARN",
+									body: { stringValue: '{"message":"slow"}' },
+									attributes: [
+										{ key: "route", value: { stringValue: "/api" } },
+									],
+								},
+							],
+						},
+					],
+				},
+			],
+		});
+	});
+
+	it("should map levels to severity numbers", async () => {
+		const logger = getLokiLogger({
+			transports: [
+				otlpTransport({ endpoint: "http://localhost:4318", batch: true }),
+			],
+		});
+		await logger.debug("debug");
+		await logger.info("info");
+		await logger.warn("warn");
+		await logger.error("error");
+		await logger.flush();
+
+		const [url, init] = fetchCalls()[0];
+		expect(url).toBe("http://localhost:4318/v1/logs");
+		const records = JSON.parse(init.body).resourceLogs[0].scopeLogs[0]
+			.logRecords as { severityNumber: number; severityText: string }[];
+		expect(records.map((r) => [r.severityNumber, r.severityText])).toEqual([
+			[5, "DEBUG"],
+			[9, "INFO"],
+			[13, "WARN"],
+			[17, "ERROR"],
+		]);
+	});
+
+	it("should map W3C trace ids and keep other trace ids as attributes", async () => {
+		const logger = getLokiLogger({
+			transports: [
+				otlpTransport({ endpoint: "http://localhost:4318", batch: true }),
+			],
+		});
+		await logger.info("w3c", {
+			trace_id: "4BF92F3577B34DA6A3CE929D0E0E4736",
+			span_id: "00f067aa0ba902b7",
+		});
+		await logger.info("ray", { trace_id: "8a1b2c3d4e5f6789-NRT" });
+		await logger.flush();
+
+		const records = JSON.parse(fetchCalls()[0][1].body).resourceLogs[0]
+			.scopeLogs[0].logRecords;
+		expect(records[0].traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+		expect(records[0].spanId).toBe("00f067aa0ba902b7");
+		expect(records[0].attributes).toEqual([]);
+		expect(records[1].traceId).toBeUndefined();
+		expect(records[1].attributes).toEqual([
+			{ key: "trace_id", value: { stringValue: "8a1b2c3d4e5f6789-NRT" } },
+		]);
+	});
+
+	it("should group entries by resource", async () => {
+		const logger = getLokiLogger({
+			transports: [
+				otlpTransport({
+					endpoint: "http://localhost:4318",
+					batch: true,
+					resourceAttributes: { "service.name": "worker" },
+				}),
+			],
+		});
+		await logger.info("one", { env: "prod" });
+		await logger.info("two", { env: "dev" });
+		await logger.info("three", { env: "prod" });
+		await logger.flush();
+
+		const { resourceLogs } = JSON.parse(fetchCalls()[0][1].body);
+		expect(resourceLogs).toHaveLength(2);
+		expect(resourceLogs[0].resource.attributes).toEqual([
+			{ key: "service.name", value: { stringValue: "worker" } },
+			{ key: "env", value: { stringValue: "prod" } },
+		]);
+		expect(resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(2);
+	});
+
+	it("should retry and call onSendError", async () => {
+		global.fetch = vi.fn(async () => ({
+			ok: false,
+			status: 503,
+			statusText: "Unavailable",
+		})) as unknown as typeof fetch;
+		const onSendError = vi.fn();
+		const logger = getLokiLogger({
+			transports: [
+				otlpTransport({
+					endpoint: "http://localhost:4318/v1/logs",
+					retries: 1,
+					onSendError,
+				}),
+			],
+		});
+		await logger.info("test");
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+		expect(onSendError).toHaveBeenCalledWith(
+			expect.objectContaining({
+				message: "OTLP export failed: 503 Unavailable",
+			}),
+			expect.objectContaining({ resourceLogs: expect.any(Array) }),
+		);
+	});
+
+	it("should read the endpoint from env", async () => {
+		process.env.OTEL_EXPORTER_OTLP_ENDPOINT = "http://env-collector:4318/";
+		const logger = getLokiLogger({ transports: [otlpTransport()] });
+		await logger.info("test");
+
+		expect(fetchCalls()[0][0]).toBe("http://env-collector:4318/v1/logs");
+		delete process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+	});
+
+	it("should append /v1/logs only to the base endpoint from env", async () => {
+		process.env.OTEL_EXPORTER_OTLP_ENDPOINT = "https://gw.example.com/otlp";
+		await getLokiLogger({ transports: [otlpTransport()] }).info("base");
+		process.env.OTEL_EXPORTER_OTLP_LOGS_ENDPOINT =
+			"https://gw.example.com/custom";
+		await getLokiLogger({ transports: [otlpTransport()] }).info("logs");
+
+		expect(fetchCalls().map((call) => call[0])).toEqual([
+			"https://gw.example.com/otlp/v1/logs",
+			"https://gw.example.com/custom",
+		]);
+		delete process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+		delete process.env.OTEL_EXPORTER_OTLP_LOGS_ENDPOINT;
+	});
+
+	it("should export through a custom fetch", async () => {
+		const customFetch = vi.fn(async () => new Response(null));
+		const logger = getLokiLogger({
+			transports: [
+				otlpTransport({
+					endpoint: "http://localhost:4318",
+					fetcher: customFetch,
+				}),
+			],
+		});
+		await logger.info("test");
+
+		expect(fetch).not.toHaveBeenCalled();
+		expect(customFetch).toHaveBeenCalledWith(
+			"http://localhost:4318/v1/logs",
+			expect.objectContaining({ method: "POST" }),
+		);
+	});
+});
@@ -0,0 +1,322 @@
+import { type Batcher, createBatcher, resolveBatchThresholds } from "./batch";
+import { getEnv } from "./env";
+import { type FetcherLike, type FetchLike, fetchWith } from "./fetch";
+import {
+	type BuiltinLogLevel,
+	LOG_LEVEL_PRIORITY,
+	type LogLevel,
+} from "./levels";
+import type { LokiBatchConfig } from "./loki";
+import {
+	type CircuitBreakerConfig,
+	createRetrySender,
+	parseRetryAfter,
+	type RetryPolicy,
+} from "./retry";
+import { safeStringify } from "./serialize";
+import type { LogEntry, Transport } from "./transports";
+
+/**
+ * OTLP transport config
+ */
+export type OtlpTransportConfig = {
+	/**
+	 * OTLP/HTTP logs endpoint, e.g. https://collector:4318/v1/logs.
+	 * `/v1/logs` is appended to URLs without a path.
+	 * Falls back to OTEL_EXPORTER_OTLP_LOGS_ENDPOINT / OTEL_EXPORTER_OTLP_ENDPOINT
+	 */
+	endpoint?: string;
+	/**
+	 * Extra HTTP headers, e.g. Authorization
+	 */
+	headers?: Record<string, string>;
+	/**
+	 * Custom fetch function or service binding used for every request
+	 * (default: global fetch)
+	 */
+	fetcher?: FetchLike | FetcherLike;
+	/**
+	 * Minimum log level to send
+	 */
+	minLevel?: LogLevel;
+	/**
+	 * Number of retries for fetch (default: 0)
+	 */
+	retries?: number;
+	/**
+	 * Callback when fetch fails or the circuit breaker is open
+	 */
+	onSendError?: (
+		error: unknown,
+		request: OtlpLogsRequest,
+	) => void | Promise<void>;
+	/**
+	 * Backoff, jitter and time budget of retries
+	 */
+	retryPolicy?: RetryPolicy;
+	/**
+	 * Stop exporting to a collector that keeps failing
+	 */
+	circuitBreaker?: boolean | CircuitBreakerConfig;
+	/**
+	 * Buffer logs and export them in one request.
+	 * `true` uses the default thresholds. Call `flush()` to export the rest.
+	 */
+	batch?: boolean | LokiBatchConfig;
+	/**
+	 * Attributes added to the resource of every log
+	 */
+	resourceAttributes?: Record<string, string>;
+	/**
+	 * Label keys sent as resource attributes instead of log attributes
+	 * (default: service_name, service, app, env)
+	 */
+	resourceLabelKeys?: string[];
+};
+
+/**
+ * OTLP AnyValue (JSON encoding)
+ */
+export type OtlpAnyValue = { stringValue: string };
+
+/**
+ * OTLP KeyValue (JSON encoding)
+ */
+export type OtlpKeyValue = { key: string; value: OtlpAnyValue };
+
+/**
+ * OTLP LogRecord (JSON encoding)
+ */
+export type OtlpLogRecord = {
+	timeUnixNano: string;
+	observedTimeUnixNano: string;
+	severityNumber: number;
+	severityText: string;
+	body: OtlpAnyValue;
+	attributes: OtlpKeyValue[];
+	traceId?: string;
+	spanId?: string;
+};
+
+/**
+ * OTLP ExportLogsServiceRequest (JSON encoding)
+ */
+export type OtlpLogsRequest = {
+	resourceLogs: {
+		resource: { attributes: OtlpKeyValue[] };
+		scopeLogs: {
+			scope: { name: string };
+			logRecords: OtlpLogRecord[];
+		}[];
+	}[];
+};
+
+/**
+ * Default label keys sent as resource attributes
+ */
+export const DEFAULT_RESOURCE_LABEL_KEYS = [
+	"service_name",
+	"service",
+	"app",
+	"env",
+];
+
+/**
+ * OTLP SeverityNumber of each log level
+ */
+export const OTLP_SEVERITY_NUMBER: Record<BuiltinLogLevel, number> = {
+	trace: 1,
+	debug: 5,
+	info: 9,
+	warn: 13,
+	error: 17,
+	fatal: 21,
+};
+
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/i;
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/i;
+
+/**
+ * Create a transport that exports logs to an OpenTelemetry collector
+ * with OTLP/HTTP JSON
+ *
+ * @param config
+ */
+export const otlpTransport = <T extends string = string>(
+	config: OtlpTransportConfig = {},
+): Transport<T> => {
+	const endpoint = getOtlpEndpoint(config.endpoint);
+	const send = createRetrySender(
+		config,
+		(request: OtlpLogsRequest) => sendToOtlp(config, endpoint, request),
+		"OTLP",
+		endpoint,
+	);
+	const batcher: Batcher<LogEntry<T>> = createBatcher({
+		...resolveBatchThresholds(config.batch),
+		size: (entry) => safeStringify(entry.message).length,
+		send: (entries) => send(generateOtlpLogsRequest(config, entries)),
+	});
+
+	return {
+		name: "otlp",
+		minLevel: config.minLevel,
+		write: (entry) => batcher.add(entry),
+		flush: () => batcher.flush(),
+	};
+};
+
+/**
+ * Resolve the logs endpoint. A configured endpoint without a path gets
+ * /v1/logs. Like other OTel SDKs, OTEL_EXPORTER_OTLP_LOGS_ENDPOINT is used
+ * as-is and /v1/logs is always appended to OTEL_EXPORTER_OTLP_ENDPOINT
+ *
+ * @param endpoint
+ */
+function getOtlpEndpoint(endpoint?: string): string | undefined {
+	if (endpoint) {
+		return /^https?:\/\/[^/]+\/?$/.test(endpoint)
+			? `${endpoint.replace(/\/$/, "")}/v1/logs`
+			: endpoint;
+	}
+	const logsEndpoint = getEnv("OTEL_EXPORTER_OTLP_LOGS_ENDPOINT");
+	if (logsEndpoint) {
+		return logsEndpoint;
+	}
+	const baseEndpoint = getEnv("OTEL_EXPORTER_OTLP_ENDPOINT");
+	return baseEndpoint
+		? `${baseEndpoint.replace(/\/$/, "")}/v1/logs`
+		: undefined;
+}
+
+/**
+ * Encode log entries as an OTLP ExportLogsServiceRequest.
+ * Entries are grouped by their resource attributes.
+ *
+ * @param config
+ * @param entries
+ */
+function generateOtlpLogsRequest<T extends string>(
+	config: OtlpTransportConfig,
+	entries: LogEntry<T>[],
+): OtlpLogsRequest {
+	const resourceKeys = config.resourceLabelKeys ?? DEFAULT_RESOURCE_LABEL_KEYS;
+	const resources = new Map<
+		string,
+		{ attributes: OtlpKeyValue[]; logRecords: OtlpLogRecord[] }
+	>();
+
+	for (const entry of entries) {
+		const resourceAttributes: Record<string, string> = {
+			...config.resourceAttributes,
+		};
+		const logAttributes: Record<string, string> = {};
+		let traceId: string | undefined;
+		let spanId: string | undefined;
+
+		for (const [key, value] of Object.entries(entry.labels)) {
+			if (key === "trace_id" && TRACE_ID_PATTERN.test(value)) {
+				traceId = value.toLowerCase();
+			} else if (key === "span_id" && SPAN_ID_PATTERN.test(value)) {
+				spanId = value.toLowerCase();
+			} else if (resourceKeys.includes(key)) {
+				resourceAttributes[key] = value;
+			} else {
+				logAttributes[key] = value;
+			}
+		}
+
+		const timeUnixNano = `${entry.timestamp.toString()}000000`;
+		const logRecord: OtlpLogRecord = {
+			timeUnixNano,
+			observedTimeUnixNano: timeUnixNano,
+			severityNumber: getSeverityNumber(entry.level),
+			severityText: entry.level.toUpperCase(),
+			body: { stringValue: safeStringify(entry.message) },
+			attributes: toKeyValues(logAttributes),
+		};
+		if (traceId) logRecord.traceId = traceId;
+		if (spanId) logRecord.spanId = spanId;
+
+		const attributes = toKeyValues(resourceAttributes);
+		const key = JSON.stringify(
+			[...attributes].sort((a, b) => (a.key < b.key ? -1 : 1)),
+		);
+		const resource = resources.get(key);
+		if (resource) {
+			resource.logRecords.push(logRecord);
+		} else {
+			resources.set(key, { attributes, logRecords: [logRecord] });
+		}
+	}
+
+	return {
+		resourceLogs: Array.from(resources.values(), (resource) => ({
+			resource: { attributes: resource.attributes },
+			scopeLogs: [
+				{ scope: { name: "cloki" }, logRecords: resource.logRecords },
+			],
+		})),
+	};
+}
+
+function toKeyValues(attributes: Record<string, string>): OtlpKeyValue[] {
+	return Object.entries(attributes).map(([key, value]) => ({
+		key,
+		value: { stringValue: value },
+	}));
+}
+
+/**
+ * Send a request to the OTLP endpoint
+ *
+ * @param config
+ * @param endpoint
+ * @param request
+ */
+async function sendToOtlp(
+	config: OtlpTransportConfig,
+	endpoint: string | undefined,
+	request: OtlpLogsRequest,
+) {
+	if (!endpoint) {
+		throw new Error("OTLP configuration missing (endpoint)");
+	}
+
+	const response = await fetchWith(config.fetcher, endpoint, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			...config.headers,
+		},
+		body: JSON.stringify(request),
+	});
+
+	if (!response.ok) {
+		throw Object.assign(
+			new Error(
+				`OTLP export failed: ${response.status} ${response.statusText}`,
+			),
+			{
+				status: response.status,
+				retryAfterMs: parseRetryAfter(response.headers?.get("Retry-After")),
+			},
+		);
+	}
+}
+
+/**
+ * SeverityNumber of a level. Custom levels get the number of the closest
+ * built-in level below them
+ *
+ * @param level
+ */
+function getSeverityNumber(level: LogLevel): number {
+	let severity = OTLP_SEVERITY_NUMBER.trace;
+	for (const [builtin, number] of Object.entries(OTLP_SEVERITY_NUMBER)) {
+		if (LOG_LEVEL_PRIORITY[builtin as LogLevel] <= LOG_LEVEL_PRIORITY[level]) {
+			severity = number;
+		}
+	}
+	return severity;
+}
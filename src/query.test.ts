@@ -0,0 +1,219 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getLokiClient, LokiQueryError } from "./query";
+
+type StoredLine = {
+	timestamp: string;
+	labels: Record<string, string>;
+	line: string;
+};
+
+// Stand-in for the Loki query API over a fixed set of lines
+const stored: StoredLine[] = [1, 2, 2, 3, 4, 5].map((ns, i) => ({
+	timestamp: `170000000000000000${ns}`,
+	labels: { app: i % 2 === 0 ? "api" : "web", level: "info" },
+	line: JSON.stringify({ message: `line ${i}` }),
+}));
+
+const handle = (url: URL): { status: number; body: unknown } => {
+	const params = url.searchParams;
+	const path = url.pathname.replace("/loki/api/v1", "");
+	if (params.get("query") === "{") {
+		return { status: 400, body: "parse error at line 1, col 2" };
+	}
+	switch (path) {
+		case "/query_range": {
+			const start = params.get("start") ?? "0";
+			const end = params.get("end") ?? "9999999999999999999";
+			const forward = params.get("direction") === "forward";
+			const lines = stored
+				.filter((l) => l.timestamp >= start && l.timestamp < end)
+				.sort((a, b) =>
+					forward
+						? a.timestamp.localeCompare(b.timestamp)
+						: b.timestamp.localeCompare(a.timestamp),
+				)
+				.slice(0, Number(params.get("limit") ?? 100));
+			const streams = new Map<string, StoredLine[]>();
+			for (const line of lines) {
+				const key = JSON.stringify(line.labels);
+				streams.set(key, [...(streams.get(key) ?? []), line]);
+			}
+			return {
+				status: 200,
+				body: {
+					status: "success",
+					data: {
+						resultType: "streams",
+						result: Array.from(streams.values()).map((values) => ({
+							stream: values[0].labels,
+							values: values.map((l) => [l.timestamp, l.line]),
+						})),
+					},
+				},
+			};
+		}
+		case "/query":
+			return {
+				status: 200,
+				body: {
+					status: "success",
+					data: {
+						resultType: "vector",
+						result: [{ metric: { app: "api" }, value: [1700000000, "3"] }],
+					},
+				},
+			};
+		case "/labels":
+			return {
+				status: 200,
+				body: { status: "success", data: ["app", "level"] },
+			};
+		case "/label/app/values":
+			return { status: 200, body: { status: "success", data: ["api", "web"] } };
+		case "/series":
+			return {
+				status: 200,
+				body: {
+					status: "success",
+					data: params.getAll("match[]").map((match) => ({ match })),
+				},
+			};
+		default:
+			return { status: 404, body: "not found" };
+	}
+};
+
+describe("getLokiClient", () => {
+	let server: Server;
+	let lokiUrl: string;
+	let requests: IncomingMessage[];
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			requests.push(req);
+			const { status, body } = handle(new URL(req.url ?? "/", "http://loki"));
+			res.writeHead(status, {
+				"Content-Type":
+					typeof body === "string" ? "text/plain" : "application/json",
+			});
+			res.end(typeof body === "string" ? body : JSON.stringify(body));
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, "127.0.0.1", resolve),
+		);
+		lokiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(() => {
+		requests = [];
+	});
+
+	it("should return decoded log lines newest first", async () => {
+		const client = getLokiClient({
+			lokiUrl,
+			lokiUser: "user",
+			lokiToken: "token",
+			lokiTenantId: "tenant",
+		});
+		const result = await client.queryRange('{app="api"}', { limit: 2 });
+
+		expect(result).toEqual({
+			resultType: "streams",
+			lines: [
+				{
+					timestamp: "1700000000000000005",
+					labels: { app: "web", level: "info" },
+					line: '{"message":"line 5"}',
+					message: { message: "line 5" },
+				},
+				{
+					timestamp: "1700000000000000004",
+					labels: { app: "api", level: "info" },
+					line: '{"message":"line 4"}',
+					message: { message: "line 4" },
+				},
+			],
+		});
+		expect(requests[0].url).toBe(
+			"/loki/api/v1/query_range?query=%7Bapp%3D%22api%22%7D&limit=2",
+		);
+		expect(requests[0].headers.authorization).toBe(
+			`Basic ${btoa("user:token")}`,
+		);
+		expect(requests[0].headers["x-scope-orgid"]).toBe("tenant");
+	});
+
+	it.each(["backward", "forward"] as const)(
+		"should paginate %s without duplicates at page boundaries",
+		async (direction) => {
+			const client = getLokiClient({ lokiUrl });
+			const lines = await client.queryAll("{}", { direction, pageSize: 2 });
+
+			// Lines with the same timestamp have no defined order
+			expect(lines.map((l) => l.line).sort()).toEqual(
+				stored.map((l) => l.line),
+			);
+			const timestamps = stored.map((l) => l.timestamp);
+			expect(lines.map((l) => l.timestamp)).toEqual(
+				direction === "forward" ? timestamps : timestamps.reverse(),
+			);
+			expect(requests.length).toBeGreaterThan(3);
+		},
+	);
+
+	it("should stop paginating at the limit", async () => {
+		const client = getLokiClient({ lokiUrl });
+		const lines = await client.queryAll("{}", {
+			start: new Date(1700000000000),
+			limit: 3,
+			pageSize: 2,
+		});
+
+		expect(lines.map((l) => l.timestamp)).toEqual([
+			"1700000000000000005",
+			"1700000000000000004",
+			"1700000000000000003",
+		]);
+		expect(requests[0].url).toContain("start=1700000000000000000");
+	});
+
+	it("should decode metric results", async () => {
+		const client = getLokiClient({ lokiUrl });
+
+		expect(
+			await client.query('count_over_time({app="api"}[5m])', { time: 1000 }),
+		).toEqual({
+			resultType: "vector",
+			samples: [{ metric: { app: "api" }, timestamp: 1700000000, value: 3 }],
+		});
+		expect(requests[0].url).toContain("time=1000000000");
+	});
+
+	it("should list labels, values and series", async () => {
+		const client = getLokiClient({ lokiUrl: `${lokiUrl}/loki/api/v1/push` });
+
+		expect(await client.labels()).toEqual(["app", "level"]);
+		expect(await client.labelValues("app")).toEqual(["api", "web"]);
+		expect(await client.series(['{app="api"}', '{app="web"}'])).toEqual([
+			{ match: '{app="api"}' },
+			{ match: '{app="web"}' },
+		]);
+	});
+
+	it("should throw a LokiQueryError for rejected queries", async () => {
+		const client = getLokiClient({ lokiUrl });
+		const error = await client.queryRange("{").catch((e) => e);
+
+		expect(error).toBeInstanceOf(LokiQueryError);
+		expect(error).toMatchObject({
+			status: 400,
+			body: "parse error at line 1, col 2",
+		});
+	});
+});
@@ -0,0 +1,509 @@
+import {
+	getLokiApiUrl,
+	getLokiAuthHeaders,
+	type LokiConnectionConfig,
+	resolveLokiConfig,
+} from "./connection";
+import { fetchWith } from "./fetch";
+
+/**
+ * Loki client config. Endpoint, credentials and tenant fall back to the
+ * LOKI_* environment variables like getLokiLogger
+ */
+export type LokiClientConfig = LokiConnectionConfig;
+
+/**
+ * Date, Unix time in ms, or a string passed as is (Unix time in ns or RFC3339)
+ */
+export type LokiTime = Date | number | string;
+
+/**
+ * Order of log lines, backward is newest first
+ */
+export type LokiDirection = "forward" | "backward";
+
+/**
+ * Options of an instant query
+ */
+export type LokiQueryOptions = {
+	/**
+	 * Evaluation time (default: now)
+	 */
+	time?: LokiTime;
+	/**
+	 * Maximum number of log lines (default: 100)
+	 */
+	limit?: number;
+	/**
+	 * Order of log lines (default: backward)
+	 */
+	direction?: LokiDirection;
+};
+
+/**
+ * Options of a range query
+ */
+export type LokiQueryRangeOptions = {
+	/**
+	 * Start of the range, inclusive (default: one hour ago)
+	 */
+	start?: LokiTime;
+	/**
+	 * End of the range, exclusive (default: now)
+	 */
+	end?: LokiTime;
+	/**
+	 * Maximum number of log lines (default: 100)
+	 */
+	limit?: number;
+	/**
+	 * Order of log lines (default: backward)
+	 */
+	direction?: LokiDirection;
+	/**
+	 * Resolution of metric queries, e.g. "1m" or seconds
+	 */
+	step?: string | number;
+};
+
+/**
+ * Options of a paginated range query
+ */
+export type LokiQueryAllOptions = Omit<LokiQueryRangeOptions, "step"> & {
+	/**
+	 * Log lines requested per page (default: 1000)
+	 */
+	pageSize?: number;
+};
+
+/**
+ * Options of label and series requests
+ */
+export type LokiLabelsOptions = {
+	start?: LokiTime;
+	end?: LokiTime;
+	/**
+	 * Stream selector limiting the streams, e.g. {app="api"}
+	 */
+	query?: string;
+};
+
+/**
+ * Log line returned by a log query
+ */
+export type LokiLogLine = {
+	/**
+	 * Unix time in ns
+	 */
+	timestamp: string;
+	labels: Record<string, string>;
+	line: string;
+	/**
+	 * Line parsed as JSON, if it is a JSON object
+	 */
+	message?: Record<string, unknown>;
+	/**
+	 * Structured metadata, if returned separately from the labels
+	 */
+	metadata?: Record<string, string>;
+};
+
+/**
+ * Sample of a metric query
+ */
+export type LokiSample = {
+	/**
+	 * Unix time in seconds
+	 */
+	timestamp: number;
+	value: number;
+};
+
+/**
+ * Result of a query, depending on the type of the LogQL expression
+ */
+export type LokiQueryResult =
+	| { resultType: "streams"; lines: LokiLogLine[] }
+	| {
+			resultType: "vector";
+			samples: (LokiSample & { metric: Record<string, string> })[];
+	  }
+	| {
+			resultType: "matrix";
+			series: { metric: Record<string, string>; values: LokiSample[] }[];
+	  }
+	| { resultType: "scalar"; sample: LokiSample };
+
+/**
+ * Client for the Loki query API
+ */
+export type LokiClient = {
+	/**
+	 * Run a LogQL query at a single point in time
+	 */
+	query: (
+		query: string,
+		options?: LokiQueryOptions,
+	) => Promise<LokiQueryResult>;
+	/**
+	 * Run a LogQL query over a range of time
+	 */
+	queryRange: (
+		query: string,
+		options?: LokiQueryRangeOptions,
+	) => Promise<LokiQueryResult>;
+	/**
+	 * Read all log lines of a range, one page after the other.
+	 * limit caps the total number of lines
+	 */
+	queryAll: (
+		query: string,
+		options?: LokiQueryAllOptions,
+	) => Promise<LokiLogLine[]>;
+	/**
+	 * Label names
+	 */
+	labels: (options?: LokiLabelsOptions) => Promise<string[]>;
+	/**
+	 * Values of a label
+	 */
+	labelValues: (name: string, options?: LokiLabelsOptions) => Promise<string[]>;
+	/**
+	 * Label sets of the streams matching the selectors
+	 */
+	series: (
+		match: string | string[],
+		options?: Omit<LokiLabelsOptions, "query">,
+	) => Promise<Record<string, string>[]>;
+};
+
+/**
+ * Error thrown when Loki rejects a query
+ */
+export class LokiQueryError extends Error {
+	/**
+	 * HTTP status code
+	 */
+	readonly status: number;
+	/**
+	 * Response body, e.g. "parse error at line 1, col 1: syntax error"
+	 */
+	readonly body: string;
+
+	constructor(status: number, statusText: string, body = "") {
+		super(`Loki query failed: ${status} ${statusText}`);
+		this.name = "LokiQueryError";
+		this.status = status;
+		this.body = body;
+	}
+}
+
+type RawStream = {
+	stream: Record<string, string>;
+	values: [string, string, Record<string, unknown>?][];
+};
+
+type RawSample = [number, string];
+
+type RawQueryData =
+	| { resultType: "streams"; result: RawStream[] }
+	| {
+			resultType: "vector";
+			result: { metric: Record<string, string>; value: RawSample }[];
+	  }
+	| {
+			resultType: "matrix";
+			result: { metric: Record<string, string>; values: RawSample[] }[];
+	  }
+	| { resultType: "scalar"; result: RawSample };
+
+/**
+ * Create a client for reading logs back from Loki
+ *
+ * @param config
+ */
+export const getLokiClient = (config: LokiClientConfig = {}): LokiClient => {
+	const resolved = resolveLokiConfig(config);
+	const get = <D>(path: string, params: URLSearchParams) =>
+		getFromLoki<D>(resolved, path, params);
+
+	const queryRange: LokiClient["queryRange"] = async (query, options = {}) => {
+		const direction = options.direction ?? "backward";
+		const params = createParams({
+			query,
+			start: options.start,
+			end: options.end,
+			limit: options.limit,
+			direction: options.direction,
+			step: options.step,
+		});
+		return decodeQueryData(
+			await get<RawQueryData>("/query_range", params),
+			direction,
+		);
+	};
+
+	return {
+		query: async (query, options = {}) => {
+			const direction = options.direction ?? "backward";
+			const params = createParams({
+				query,
+				time: options.time,
+				limit: options.limit,
+				direction: options.direction,
+			});
+			return decodeQueryData(
+				await get<RawQueryData>("/query", params),
+				direction,
+			);
+		},
+		queryRange,
+		queryAll: async (query, options = {}) => {
+			const { pageSize = 1000, limit } = options;
+			const direction = options.direction ?? "backward";
+			let { start, end } = options;
+			const lines: LokiLogLine[] = [];
+			// Lines at the page boundary are returned again by the next page
+			let boundary = new Set<string>();
+
+			while (limit === undefined || lines.length < limit) {
+				// Request the boundary lines on top so they don't take up the page
+				const requested =
+					boundary.size +
+					(limit === undefined
+						? pageSize
+						: Math.min(pageSize, limit - lines.length));
+				const result = await queryRange(query, {
+					start,
+					end,
+					direction,
+					limit: requested,
+				});
+				if (result.resultType !== "streams") {
+					throw new Error("Loki queryAll requires a log query");
+				}
+				const page = result.lines;
+				const fresh = page.filter((line) => !boundary.has(getLineKey(line)));
+				lines.push(...fresh);
+				if (page.length < requested) {
+					break;
+				}
+
+				const last = page[page.length - 1].timestamp;
+				boundary = new Set(
+					page.filter((line) => line.timestamp === last).map(getLineKey),
+				);
+				if (direction === "forward") {
+					start = last;
+				} else {
+					end = addNanosecond(last);
+				}
+			}
+			return limit === undefined ? lines : lines.slice(0, limit);
+		},
+		labels: (options = {}) =>
+			get<string[]>("/labels", createParams(options)).then(
+				(data) => data ?? [],
+			),
+		labelValues: (name, options = {}) =>
+			get<string[]>(
+				`/label/${encodeURIComponent(name)}/values`,
+				createParams(options),
+			).then((data) => data ?? []),
+		series: (match, options = {}) => {
+			const params = createParams(options);
+			for (const selector of Array.isArray(match) ? match : [match]) {
+				params.append("match[]", selector);
+			}
+			return get<Record<string, string>[]>("/series", params).then(
+				(data) => data ?? [],
+			);
+		},
+	};
+};
+
+/**
+ * Send a GET request to the Loki API and return the data of the response
+ *
+ * @param config
+ * @param path
+ * @param params
+ */
+async function getFromLoki<D>(
+	config: LokiClientConfig,
+	path: string,
+	params: URLSearchParams,
+): Promise<D> {
+	const url = getLokiApiUrl(config, path);
+	if (!url) {
+		throw new Error("Loki configuration missing (host or url)");
+	}
+
+	const response = await fetchWith(config.fetcher, `${url}?${params}`, {
+		method: "GET",
+		headers: { ...getLokiAuthHeaders(config), ...config.lokiHeaders },
+	});
+	if (!response.ok) {
+		let body = "";
+		try {
+			body = (await response.text()).trim();
+		} catch (_e) {}
+		throw new LokiQueryError(response.status, response.statusText, body);
+	}
+	return ((await response.json()) as { data: D }).data;
+}
+
+/**
+ * Create query parameters, skipping undefined values
+ *
+ * @param values
+ */
+function createParams(
+	values: Record<string, LokiTime | undefined>,
+): URLSearchParams {
+	const params = new URLSearchParams();
+	for (const [key, value] of Object.entries(values)) {
+		if (value === undefined) {
+			continue;
+		}
+		params.set(
+			key,
+			key === "time" || key === "start" || key === "end"
+				? formatTime(value)
+				: String(value),
+		);
+	}
+	return params;
+}
+
+/**
+ * Format a time as Unix time in ns, strings are passed as is
+ *
+ * @param time
+ */
+function formatTime(time: LokiTime): string {
+	if (time instanceof Date) {
+		return `${time.getTime()}000000`;
+	}
+	if (typeof time === "number") {
+		return `${Math.floor(time)}000000`;
+	}
+	return time;
+}
+
+/**
+ * Decode the data of a query response
+ *
+ * @param data
+ * @param direction
+ */
+function decodeQueryData(
+	data: RawQueryData,
+	direction: LokiDirection,
+): LokiQueryResult {
+	switch (data.resultType) {
+		case "streams": {
+			const lines = data.result.flatMap(({ stream, values }) =>
+				values.map(([timestamp, line, metadata]) =>
+					decodeLogLine(stream, timestamp, line, metadata),
+				),
+			);
+			lines.sort((a, b) =>
+				direction === "forward"
+					? compareTimestamps(a.timestamp, b.timestamp)
+					: compareTimestamps(b.timestamp, a.timestamp),
+			);
+			return { resultType: "streams", lines };
+		}
+		case "vector":
+			return {
+				resultType: "vector",
+				samples: data.result.map(({ metric, value }) => ({
+					metric,
+					...decodeSample(value),
+				})),
+			};
+		case "matrix":
+			return {
+				resultType: "matrix",
+				series: data.result.map(({ metric, values }) => ({
+					metric,
+					values: values.map(decodeSample),
+				})),
+			};
+		case "scalar":
+			return { resultType: "scalar", sample: decodeSample(data.result) };
+		default:
+			throw new Error(
+				`Unsupported Loki result type: ${(data as { resultType: string }).resultType}`,
+			);
+	}
+}
+
+/**
+ * Decode a log line, parsing JSON lines into message
+ *
+ * @param labels
+ * @param timestamp
+ * @param line
+ * @param metadata
+ */
+function decodeLogLine(
+	labels: Record<string, string>,
+	timestamp: string,
+	line: string,
+	metadata?: Record<string, unknown>,
+): LokiLogLine {
+	const logLine: LokiLogLine = { timestamp, labels, line };
+	if (line.startsWith("{")) {
+		try {
+			logLine.message = JSON.parse(line);
+		} catch (_e) {}
+	}
+	if (metadata) {
+		// categorize-labels responses nest it as { structuredMetadata }
+		logLine.metadata = (metadata.structuredMetadata ?? metadata) as Record<
+			string,
+			string
+		>;
+	}
+	return logLine;
+}
+
+function decodeSample([timestamp, value]: RawSample): LokiSample {
+	return { timestamp, value: Number(value) };
+}
+
+function getLineKey(line: LokiLogLine): string {
+	return `${line.timestamp}\n${JSON.stringify(line.labels)}\n${line.line}`;
+}
+
+/**
+ * Compare Unix times in ns without losing precision
+ *
+ * @param a
+ * @param b
+ */
+function compareTimestamps(a: string, b: string): number {
+	if (a.length !== b.length) {
+		return a.length - b.length;
+	}
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Add 1ns to a Unix time in ns
+ *
+ * @param timestamp
+ */
+function addNanosecond(timestamp: string): string {
+	const digits = timestamp.split("");
+	for (let i = digits.length - 1; i >= 0; i--) {
+		if (digits[i] !== "9") {
+			digits[i] = String(Number(digits[i]) + 1);
+			return digits.join("");
+		}
+		digits[i] = "0";
+	}
+	return `1${digits.join("")}`;
+}
@@ -0,0 +1,217 @@
+import { toSerializable } from "./serialize";
+
+/**
+ * Redaction config
+ */
+export type RedactConfig = {
+	/**
+	 * Key paths to redact, matched case-insensitively.
+	 * `*` matches one key and `**` any number of keys,
+	 * e.g. "password", "*.password", "headers.authorization", "**.token".
+	 * Label keys are matched as single-key paths.
+	 */
+	paths?: string[];
+	/**
+	 * Patterns redacted inside string values and labels,
+	 * e.g. REDACT_PATTERNS.jwt
+	 */
+	patterns?: RegExp[];
+	/**
+	 * Query parameters stripped from http_url and `url` fields
+	 */
+	queryParams?: string[];
+	/**
+	 * "mask" replaces values with the mask, "remove" deletes them (default: "mask")
+	 */
+	mode?: "mask" | "remove";
+	/**
+	 * Replacement for masked values (default: "[REDACTED]")
+	 */
+	mask?: string;
+};
+
+/**
+ * Built-in patterns for common secrets
+ */
+export const REDACT_PATTERNS = {
+	jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+	bearer: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+	creditCard: /\b(?:\d{4}[ -]?){3}\d{1,7}\b/g,
+};
+
+/**
+ * Redactor compiled from a RedactConfig
+ */
+export type Redactor = {
+	message: (message: object) => object;
+	labels: <L extends Record<string, string>>(labels: L) => L;
+};
+
+const URL_KEYS = ["url", "http_url"];
+
+/**
+ * Compile a redaction config
+ *
+ * @param config
+ */
+export const createRedactor = (config: RedactConfig): Redactor => {
+	const paths = (config.paths || []).map((path) =>
+		path.toLowerCase().split("."),
+	);
+	const patterns = (config.patterns || []).map(
+		(pattern) =>
+			new RegExp(
+				pattern.source,
+				pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`,
+			),
+	);
+	const queryParams = (config.queryParams || []).map((param) =>
+		param.toLowerCase(),
+	);
+	const remove = config.mode === "remove";
+	const mask = config.mask ?? "[REDACTED]";
+
+	const isRedactedPath = (path: string[]) =>
+		paths.some((pattern) => matchPath(pattern, path));
+
+	const redactString = (value: string, key?: string): string => {
+		let result = value;
+		if (
+			key !== undefined &&
+			queryParams.length > 0 &&
+			URL_KEYS.includes(key.toLowerCase())
+		) {
+			result = stripQueryParams(result, queryParams, remove ? undefined : mask);
+		}
+		for (const pattern of patterns) {
+			result = result.replace(pattern, remove ? "" : mask);
+		}
+		return result;
+	};
+
+	const redactValue = (value: unknown, path: string[]): unknown => {
+		if (typeof value === "string") {
+			return redactString(value, path[path.length - 1]);
+		}
+		if (Array.isArray(value)) {
+			const result: unknown[] = [];
+			value.forEach((item, index) => {
+				const itemPath = [...path, String(index)];
+				if (!isRedactedPath(itemPath)) {
+					result.push(redactValue(item, itemPath));
+				} else if (!remove) {
+					result.push(mask);
+				}
+			});
+			return result;
+		}
+		if (value !== null && typeof value === "object") {
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				const itemPath = [...path, key.toLowerCase()];
+				if (!isRedactedPath(itemPath)) {
+					result[key] = redactValue(item, itemPath);
+				} else if (!remove) {
+					result[key] = mask;
+				}
+			}
+			return result;
+		}
+		return value;
+	};
+
+	return {
+		message: (message) => redactValue(toSerializable(message), []) as object,
+		labels: (labels) => {
+			const result: Record<string, string> = {};
+			for (const [key, value] of Object.entries(labels)) {
+				if (!isRedactedPath([key.toLowerCase()])) {
+					result[key] = redactString(value, key);
+				} else if (!remove) {
+					result[key] = mask;
+				}
+			}
+			return result as typeof labels;
+		},
+	};
+};
+
+/**
+ * Match a key path against a pattern with `*` and `**` wildcards
+ *
+ * @param pattern
+ * @param path
+ */
+function matchPath(pattern: string[], path: string[]): boolean {
+	if (pattern.length === 0) {
+		return path.length === 0;
+	}
+	const [head, ...rest] = pattern;
+	if (head === "**") {
+		for (let i = 0; i <= path.length; i++) {
+			if (matchPath(rest, path.slice(i))) {
+				return true;
+			}
+		}
+		return false;
+	}
+	if (path.length === 0) {
+		return false;
+	}
+	return (head === "*" || head === path[0]) && matchPath(rest, path.slice(1));
+}
+
+/**
+ * Mask or remove query parameters of a URL string. Only the matched
+ * parameters change, the rest of the URL stays as written
+ *
+ * @param value
+ * @param params lower-cased parameter names
+ * @param mask replacement, or undefined to remove the parameters
+ */
+function stripQueryParams(
+	value: string,
+	params: string[],
+	mask: string | undefined,
+): string {
+	try {
+		new URL(value);
+	} catch (_e) {
+		return value;
+	}
+
+	const hashIndex = value.indexOf("#");
+	const end = hashIndex === -1 ? value.length : hashIndex;
+	const queryIndex = value.indexOf("?");
+	if (queryIndex === -1 || queryIndex > end) {
+		return value;
+	}
+
+	const pairs: string[] = [];
+	let changed = false;
+	for (const pair of value.slice(queryIndex + 1, end).split("&")) {
+		const rawName = pair.split("=")[0];
+		if (!params.includes(decodeParamName(rawName).toLowerCase())) {
+			pairs.push(pair);
+			continue;
+		}
+		changed = true;
+		if (mask !== undefined) {
+			pairs.push(`${rawName}=${mask}`);
+		}
+	}
+	if (!changed) {
+		return value;
+	}
+
+	const query = pairs.length > 0 ? `?${pairs.join("&")}` : "";
+	return `${value.slice(0, queryIndex)}${query}${value.slice(end)}`;
+}
+
+function decodeParamName(name: string): string {
+	try {
+		return decodeURIComponent(name.replace(/\+/g, " "));
+	} catch (_e) {
+		return name;
+	}
+}
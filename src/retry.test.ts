@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getLokiLogger } from "./logger";
+import { LokiPushError, lokiTransport } from "./loki";
+import { CircuitOpenError, isRetryableError, parseRetryAfter } from "./retry";
+
+describe("Retry policy", () => {
+	const respond = (...responses: Response[]) => {
+		const fetchMock = vi.fn(
+			async (_url: string) =>
+				responses.shift() ?? new Response(null, { status: 204 }),
+		);
+		global.fetch = fetchMock as unknown as typeof fetch;
+		return fetchMock;
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(100000);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("should not retry non-retryable responses", async () => {
+		const fetchMock = respond(
+			new Response("entry out of order\n", {
+				status: 400,
+				statusText: "Bad Request",
+			}),
+		);
+		const onSendError = vi.fn();
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({ lokiUrl: "http://loki", retries: 3, onSendError }),
+			],
+		});
+		await logger.info("test");
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const error = onSendError.mock.calls[0][0];
+		expect(error).toBeInstanceOf(LokiPushError);
+		expect(error).toMatchObject({
+			name: "LokiPushError",
+			message: "Loki push failed: 400 Bad Request",
+			status: 400,
+			body: "entry out of order",
+		});
+	});
+
+	it("should honor Retry-After", async () => {
+		const fetchMock = respond(
+			new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+		);
+		const logger = getLokiLogger({
+			transports: [lokiTransport({ lokiUrl: "http://loki", retries: 1 })],
+		});
+		const pending = logger.info("test");
+
+		await vi.advanceTimersByTimeAsync(1999);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+		await pending;
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("should add jitter to the backoff", async () => {
+		vi.spyOn(Math, "random").mockReturnValue(0);
+		const fetchMock = respond(new Response(null, { status: 503 }));
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					retries: 1,
+					retryPolicy: { baseDelayMs: 1000 },
+				}),
+			],
+		});
+		const pending = logger.info("test");
+
+		await vi.advanceTimersByTimeAsync(500);
+		await pending;
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("should stop retrying when the time budget is spent", async () => {
+		const fetchMock = respond(
+			...Array.from({ length: 5 }, () => new Response(null, { status: 500 })),
+		);
+		const onSendError = vi.fn();
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					retries: 5,
+					retryPolicy: { baseDelayMs: 100, jitter: false, maxElapsedMs: 250 },
+					onSendError,
+				}),
+			],
+		});
+		const pending = logger.info("test");
+		await vi.advanceTimersByTimeAsync(1000);
+		await pending;
+
+		// 0ms, 100ms; the next retry at 300ms would exceed the budget
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(onSendError).toHaveBeenCalledWith(
+			expect.objectContaining({ status: 500 }),
+			expect.anything(),
+		);
+	});
+
+	it("should open the circuit after repeated failures", async () => {
+		const fetchMock = respond(
+			new Response(null, { status: 500 }),
+			new Response(null, { status: 500 }),
+		);
+		const onSendError = vi.fn();
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 1000 },
+					onSendError,
+				}),
+			],
+		});
+
+		await logger.info("1");
+		await logger.info("2");
+		await logger.info("3");
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		const error = onSendError.mock.calls[2][0];
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect(error).toMatchObject({
+			message: "Loki circuit breaker is open, skipping send",
+			retryAt: 101000,
+		});
+
+		vi.setSystemTime(101000);
+		await logger.info("4");
+		await logger.info("5");
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+		expect(onSendError).toHaveBeenCalledTimes(3);
+	});
+
+	it("should share the circuit of an endpoint across loggers", async () => {
+		const fetchMock = respond(
+			new Response(null, { status: 500 }),
+			new Response(null, { status: 500 }),
+		);
+		const onSendError = vi.fn();
+		// A new logger per request, like withLogger or runWithLogger
+		const requestLogger = (lokiUrl: string) =>
+			getLokiLogger({
+				lokiUrl,
+				console: false,
+				circuitBreaker: { failureThreshold: 2 },
+				onSendError,
+			});
+
+		await requestLogger("http://shared-loki").info("1");
+		await requestLogger("http://shared-loki").info("2");
+		await requestLogger("http://shared-loki").info("3");
+		await requestLogger("http://other-loki").info("4");
+
+		expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+			"http://shared-loki/loki/api/v1/push",
+			"http://shared-loki/loki/api/v1/push",
+			"http://other-loki/loki/api/v1/push",
+		]);
+		expect(onSendError.mock.calls[2][0]).toBeInstanceOf(CircuitOpenError);
+	});
+});
+
+describe("isRetryableError", () => {
+	it.each([
+		[new Error("network"), true],
+		[new LokiPushError(500, "Internal Server Error"), true],
+		[new LokiPushError(408, "Request Timeout"), true],
+		[new LokiPushError(429, "Too Many Requests"), true],
+		[new LokiPushError(400, "Bad Request"), false],
+		[new LokiPushError(401, "Unauthorized"), false],
+	])("%s should be retryable: %s", (error, expected) => {
+		expect(isRetryableError(error)).toBe(expected);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	it("should parse seconds and HTTP dates", () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(Date.UTC(2024, 0, 1));
+
+		expect(parseRetryAfter("3")).toBe(3000);
+		expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT")).toBe(5000);
+		expect(parseRetryAfter("soon")).toBeUndefined();
+		expect(parseRetryAfter(null)).toBeUndefined();
+
+		vi.useRealTimers();
+	});
+});
@@ -0,0 +1,313 @@
+import { withoutCapture } from "./capture";
+
+/**
+ * Retry options shared by the HTTP transports
+ */
+export type RetryOptions<P> = {
+	/**
+	 * Number of retries (default: 0)
+	 */
+	retries?: number;
+	/**
+	 * Callback when all attempts failed or the circuit breaker is open
+	 */
+	onSendError?: (error: unknown, payload: P) => void | Promise<void>;
+	/**
+	 * Backoff, jitter and time budget of retries
+	 */
+	retryPolicy?: RetryPolicy;
+	/**
+	 * Stop sending after repeated failures.
+	 * `true` uses the default thresholds
+	 */
+	circuitBreaker?: boolean | CircuitBreakerConfig;
+};
+
+/**
+ * Retry policy
+ */
+export type RetryPolicy = {
+	/**
+	 * Delay before the first retry in ms, doubled on every retry (default: 100)
+	 */
+	baseDelayMs?: number;
+	/**
+	 * Maximum delay between retries in ms (default: 5000)
+	 */
+	maxDelayMs?: number;
+	/**
+	 * Randomize delays between 50% and 100% to avoid retry storms (default: true)
+	 */
+	jitter?: boolean;
+	/**
+	 * Total time budget for all attempts in ms. No retry is started
+	 * that would end after it (default: 10000)
+	 */
+	maxElapsedMs?: number;
+	/**
+	 * Decide if an error is worth retrying
+	 * (default: everything except 4xx responses other than 408 and 429)
+	 */
+	isRetryable?: (error: unknown) => boolean;
+};
+
+/**
+ * Circuit breaker thresholds
+ */
+export type CircuitBreakerConfig = {
+	/**
+	 * Consecutive failed sends that open the circuit (default: 5)
+	 */
+	failureThreshold?: number;
+	/**
+	 * Time in ms the circuit stays open before one trial send (default: 30000)
+	 */
+	resetTimeoutMs?: number;
+};
+
+/**
+ * Error passed to onSendError when a send is skipped by an open circuit
+ */
+export class CircuitOpenError extends Error {
+	/**
+	 * Unix time in ms when the next trial send is allowed
+	 */
+	readonly retryAt: number;
+
+	constructor(destination: string, retryAt: number) {
+		super(`${destination} circuit breaker is open, skipping send`);
+		this.name = "CircuitOpenError";
+		this.retryAt = retryAt;
+	}
+}
+
+/**
+ * Send function with retries and circuit breaker state
+ */
+export type RetrySender<P> = (payload: P) => Promise<void>;
+
+/**
+ * Circuit breakers shared by the senders of one endpoint, so per-request
+ * loggers see the failures of earlier requests in the same isolate
+ */
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Create a send function that retries failures and keeps the circuit
+ * breaker state across calls
+ *
+ * @param options
+ * @param send
+ * @param destination name used in errors and the default error output
+ * @param endpoint senders with the same destination, endpoint and
+ *   thresholds share their circuit breaker
+ */
+export function createRetrySender<P>(
+	options: RetryOptions<P>,
+	send: (payload: P) => Promise<void>,
+	destination = "Loki",
+	endpoint?: string,
+): RetrySender<P> {
+	const breaker = options.circuitBreaker
+		? getCircuitBreaker(
+				options.circuitBreaker === true ? {} : options.circuitBreaker,
+				endpoint,
+				destination,
+			)
+		: undefined;
+
+	return async (payload) => {
+		if (breaker && !breaker.canSend(Date.now())) {
+			await reportError(
+				options,
+				new CircuitOpenError(destination, breaker.retryAt()),
+				payload,
+				destination,
+			);
+			return;
+		}
+		const error = await sendWithRetry(options, payload, send);
+		if (error === undefined) {
+			breaker?.success();
+			return;
+		}
+		breaker?.failure(Date.now());
+		await reportError(options, error, payload, destination);
+	};
+}
+
+/**
+ * Send with retry. Returns the last error when all attempts failed
+ *
+ * @param options
+ * @param payload
+ * @param send
+ */
+export async function sendWithRetry<P>(
+	options: RetryOptions<P>,
+	payload: P,
+	send: (payload: P) => Promise<void>,
+): Promise<unknown> {
+	const retries = options.retries || 0;
+	const policy = options.retryPolicy ?? {};
+	const isRetryable = policy.isRetryable ?? isRetryableError;
+	const deadline = Date.now() + (policy.maxElapsedMs ?? 10000);
+
+	for (let i = 0; ; i++) {
+		try {
+			await send(payload);
+			return undefined; // Success
+		} catch (e) {
+			if (i >= retries || !isRetryable(e)) {
+				return e;
+			}
+			const delay = getRetryDelay(policy, i, e);
+			if (Date.now() + delay > deadline) {
+				return e;
+			}
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+	}
+}
+
+/**
+ * Exponential backoff with jitter, or the server's Retry-After
+ *
+ * @param policy
+ * @param attempt
+ * @param error
+ */
+function getRetryDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	error: unknown,
+): number {
+	const retryAfterMs = (error as { retryAfterMs?: number } | undefined)
+		?.retryAfterMs;
+	if (typeof retryAfterMs === "number") {
+		return retryAfterMs;
+	}
+	const delay = Math.min(
+		(policy.baseDelayMs ?? 100) * 2 ** attempt,
+		policy.maxDelayMs ?? 5000,
+	);
+	return policy.jitter === false ? delay : delay * (0.5 + Math.random() / 2);
+}
+
+/**
+ * Responses with a 4xx status other than 408 (timeout) and 429 (rate limit)
+ * will fail again, e.g. 400 "entry out of order" or 401
+ *
+ * @param error
+ */
+export function isRetryableError(error: unknown): boolean {
+	const status = (error as { status?: unknown } | undefined)?.status;
+	if (typeof status !== "number") {
+		return true;
+	}
+	return status < 400 || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into ms
+ *
+ * @param value
+ */
+export function parseRetryAfter(
+	value: string | null | undefined,
+): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value) * 1000;
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function reportError<P>(
+	options: RetryOptions<P>,
+	error: unknown,
+	payload: P,
+	destination: string,
+) {
+	if (options.onSendError) {
+		await options.onSendError(error, payload);
+	} else {
+		withoutCapture(() =>
+			console.error(`${destination} logging failed after retries:`, error),
+		);
+	}
+}
+
+type CircuitBreaker = {
+	canSend: (now: number) => boolean;
+	retryAt: () => number;
+	success: () => void;
+	failure: (now: number) => void;
+};
+
+/**
+ * Get the shared circuit breaker of an endpoint, creating it on first use
+ *
+ * @param config
+ * @param endpoint
+ * @param destination
+ */
+function getCircuitBreaker(
+	config: CircuitBreakerConfig,
+	endpoint: string | undefined,
+	destination: string,
+): CircuitBreaker {
+	if (endpoint === undefined) {
+		return createCircuitBreaker(config);
+	}
+	const key = `${destination} ${endpoint} ${JSON.stringify(config)}`;
+	let breaker = circuitBreakers.get(key);
+	if (!breaker) {
+		breaker = createCircuitBreaker(config);
+		circuitBreakers.set(key, breaker);
+	}
+	return breaker;
+}
+
+/**
+ * Closed until failureThreshold consecutive failures, then open for
+ * resetTimeoutMs. After that one trial send closes it again on success
+ * or reopens it on failure.
+ *
+ * @param config
+ */
+function createCircuitBreaker(config: CircuitBreakerConfig): CircuitBreaker {
+	const failureThreshold = config.failureThreshold ?? 5;
+	const resetTimeoutMs = config.resetTimeoutMs ?? 30000;
+	let failures = 0;
+	let openUntil = 0;
+	let trialPending = false;
+
+	return {
+		canSend: (now) => {
+			if (failures < failureThreshold) {
+				return true;
+			}
+			if (now < openUntil || trialPending) {
+				return false;
+			}
+			trialPending = true;
+			return true;
+		},
+		retryAt: () => openUntil,
+		success: () => {
+			failures = 0;
+			trialPending = false;
+		},
+		failure: (now) => {
+			failures++;
+			trialPending = false;
+			if (failures >= failureThreshold) {
+				openUntil = now + resetTimeoutMs;
+			}
+		},
+	};
+}
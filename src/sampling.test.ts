@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getLokiLogger } from "./logger";
+import { memoryTransport } from "./transports";
+
+describe("Sampling", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should sample per level", async () => {
+		const randomSpy = vi.spyOn(Math, "random");
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			sampling: { rates: { debug: 0.1 } },
+		});
+
+		randomSpy.mockReturnValue(0.05);
+		await logger.debug("kept");
+		randomSpy.mockReturnValue(0.5);
+		await logger.debug("dropped");
+		await logger.info("not sampled");
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ message: "kept" },
+			{
+				message: "cloki dropped log entries",
+				dropped: { sampled: 1, rate_limited: 0 },
+			},
+			{ message: "not sampled" },
+		]);
+	});
+
+	it("should keep or drop all logs of a trace together", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			sampling: { traceRate: 0.5, rates: { info: 0 } },
+		});
+
+		const traceIds = Array.from({ length: 20 }, (_, i) => `trace-${i}`);
+		for (const traceId of traceIds) {
+			await logger.info("first", { trace_id: traceId });
+			await logger.error("second", { trace_id: traceId });
+		}
+
+		const kept = memory.entries.filter((entry) => "trace_id" in entry.labels);
+		// Logs outside of a trace still use the level rates
+		const count = memory.entries.length;
+		await logger.info("no trace");
+		expect(memory.entries).toHaveLength(count);
+		const keptTraces = new Set(kept.map((entry) => entry.labels.trace_id));
+		expect(keptTraces.size).toBeGreaterThan(0);
+		expect(keptTraces.size).toBeLessThan(traceIds.length);
+		expect(kept).toHaveLength(keptTraces.size * 2);
+	});
+
+	it("should report dropped counts on flush", async () => {
+		vi.spyOn(Math, "random").mockReturnValue(0.9);
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			defaultLabels: { app: "api" },
+			sampling: { rates: { debug: 0.5 } },
+		});
+		await logger.debug("dropped");
+		await logger.debug("dropped");
+		await logger.flush();
+
+		expect(memory.entries).toHaveLength(1);
+		expect(memory.entries[0]).toMatchObject({
+			level: "warn",
+			labels: { app: "api" },
+			message: {
+				message: "cloki dropped log entries",
+				dropped: { sampled: 2, rate_limited: 0 },
+			},
+		});
+	});
+});
+
+describe("Rate limiting", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should drop logs over the token bucket and report them", async () => {
+		const dateNowSpy = vi.spyOn(Date, "now").mockReturnValue(100000);
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			rateLimit: { perSecond: 1, burst: 2 },
+		});
+
+		await logger.warn("1");
+		await logger.warn("2");
+		await logger.warn("3");
+		expect(memory.entries).toHaveLength(2);
+
+		dateNowSpy.mockReturnValue(101000);
+		await logger.warn("4");
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ message: "1" },
+			{ message: "2" },
+			{
+				message: "cloki dropped log entries",
+				dropped: { sampled: 0, rate_limited: 1 },
+			},
+			{ message: "4" },
+		]);
+	});
+
+	it("should share the bucket with child loggers", async () => {
+		vi.spyOn(Date, "now").mockReturnValue(100000);
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			rateLimit: { perSecond: 1 },
+		});
+		await logger.info("parent");
+		await logger.child({ module: "a" }).info("child");
+
+		expect(memory.entries).toHaveLength(1);
+	});
+});
+
+describe("Duplicate suppression", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should collapse identical logs into one entry with repeat_count", async () => {
+		const dateNowSpy = vi.spyOn(Date, "now").mockReturnValue(100000);
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			dedup: { windowMs: 1000 },
+		});
+
+		await logger.warn("hot loop");
+		await logger.warn("hot loop");
+		await logger.warn("hot loop");
+		await logger.warn("hot loop", { other: "label" });
+		expect(memory.entries).toHaveLength(2);
+
+		dateNowSpy.mockReturnValue(101000);
+		await logger.info("later");
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ message: "hot loop" },
+			{ message: "hot loop" },
+			{ message: "hot loop", repeat_count: 2 },
+			{ message: "later" },
+		]);
+	});
+
+	it("should emit pending repeat counts on flush", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			dedup: { windowMs: 60000 },
+		});
+		await logger.error("same");
+		await logger.error("same");
+		await logger.flush();
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ message: "same" },
+			{ message: "same", repeat_count: 1 },
+		]);
+	});
+
+	it("should not emit a summary without repeats", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			dedup: { windowMs: 60000 },
+		});
+		await logger.error("once");
+		await logger.flush();
+
+		expect(memory.entries).toHaveLength(1);
+	});
+
+	it("should count repeats of rate-limited logs as rate limited", async () => {
+		vi.spyOn(Date, "now").mockReturnValue(100000);
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			rateLimit: { perSecond: 1 },
+			dedup: { windowMs: 60000 },
+		});
+		await logger.info("a");
+		await logger.info("b");
+		await logger.info("b");
+		await logger.info("b");
+		await logger.flush();
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ message: "a" },
+			{
+				message: "cloki dropped log entries",
+				dropped: { sampled: 0, rate_limited: 3 },
+			},
+		]);
+	});
+});
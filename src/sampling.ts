@@ -0,0 +1,247 @@
+import type { LogLevel } from "./levels";
+import type { LokiLabels } from "./logger";
+import { safeStringify } from "./serialize";
+import type { LogEntry } from "./transports";
+
+/**
+ * Sampling config
+ */
+export type SamplingConfig = {
+	/**
+	 * Probability (0-1) of keeping a log, per level (default: 1)
+	 */
+	rates?: Partial<Record<LogLevel, number>>;
+	/**
+	 * Probability (0-1) of keeping a trace. All logs with the same trace_id
+	 * are kept or dropped together, regardless of `rates`
+	 */
+	traceRate?: number;
+};
+
+/**
+ * Token bucket rate limit per logger
+ */
+export type RateLimitConfig = {
+	/**
+	 * Sustained logs per second
+	 */
+	perSecond: number;
+	/**
+	 * Maximum burst (default: perSecond)
+	 */
+	burst?: number;
+};
+
+/**
+ * Duplicate suppression config
+ */
+export type DedupConfig = {
+	/**
+	 * Identical logs within this window (ms) are collapsed into one entry
+	 * with a repeat_count
+	 */
+	windowMs: number;
+	/**
+	 * Maximum number of tracked distinct logs (default: 1000)
+	 */
+	maxKeys?: number;
+};
+
+/**
+ * Number of dropped logs per reason
+ */
+export type DroppedCounts = {
+	sampled: number;
+	rate_limited: number;
+};
+
+/**
+ * Filter deciding which entries are written
+ */
+export type LogFilter<T extends string> = {
+	/**
+	 * Returns the entries to write for a new entry: nothing when dropped,
+	 * plus pending repeat summaries and drop reports
+	 */
+	process: (entry: LogEntry<T>) => LogEntry<T>[];
+	/**
+	 * Returns all pending repeat summaries and drop reports
+	 */
+	flush: () => LogEntry<T>[];
+};
+
+/**
+ * Log filter options
+ */
+export type LogFilterOptions<T extends string> = {
+	sampling?: SamplingConfig;
+	rateLimit?: RateLimitConfig;
+	dedup?: DedupConfig;
+	/**
+	 * Labels of drop reports
+	 */
+	labels?: LokiLabels<T>;
+	/**
+	 * Minimum interval between drop reports outside of flush (default: 10000)
+	 */
+	reportIntervalMs?: number;
+};
+
+/**
+ * Create a filter that applies sampling, duplicate suppression and
+ * rate limiting, in that order
+ *
+ * @param options
+ */
+export const createLogFilter = <T extends string>(
+	options: LogFilterOptions<T>,
+): LogFilter<T> => {
+	const { sampling, rateLimit, dedup } = options;
+	const reportIntervalMs = options.reportIntervalMs ?? 10000;
+
+	const dropped: DroppedCounts = { sampled: 0, rate_limited: 0 };
+	let lastReportAt = 0;
+
+	const burst = rateLimit ? (rateLimit.burst ?? rateLimit.perSecond) : 0;
+	let tokens = burst;
+	let lastRefillAt = Date.now();
+
+	const repeats = new Map<
+		string,
+		{ entry: LogEntry<T>; count: number; firstAt: number }
+	>();
+
+	const isSampled = (entry: LogEntry<T>): boolean => {
+		if (!sampling) {
+			return true;
+		}
+		const traceId = entry.labels.trace_id;
+		if (traceId && sampling.traceRate !== undefined) {
+			return hashToUnit(traceId) < sampling.traceRate;
+		}
+		const rate = sampling.rates?.[entry.level];
+		return rate === undefined || Math.random() < rate;
+	};
+
+	const takeToken = (now: number): boolean => {
+		if (!rateLimit) {
+			return true;
+		}
+		tokens = Math.min(
+			burst,
+			tokens + ((now - lastRefillAt) / 1000) * rateLimit.perSecond,
+		);
+		lastRefillAt = now;
+		if (tokens < 1) {
+			return false;
+		}
+		tokens -= 1;
+		return true;
+	};
+
+	const summarize = (
+		repeat: { entry: LogEntry<T>; count: number },
+		now: number,
+	): LogEntry<T> => ({
+		...repeat.entry,
+		timestamp: now,
+		message: { ...repeat.entry.message, repeat_count: repeat.count },
+	});
+
+	const takeRepeats = (now: number, all: boolean): LogEntry<T>[] => {
+		const summaries: LogEntry<T>[] = [];
+		for (const [key, repeat] of repeats) {
+			if (all || now - repeat.firstAt >= (dedup?.windowMs ?? 0)) {
+				repeats.delete(key);
+				if (repeat.count > 0) {
+					summaries.push(summarize(repeat, now));
+				}
+			}
+		}
+		return summaries;
+	};
+
+	const takeReport = (now: number, force: boolean): LogEntry<T>[] => {
+		if (dropped.sampled === 0 && dropped.rate_limited === 0) {
+			return [];
+		}
+		if (!force && now - lastReportAt < reportIntervalMs) {
+			return [];
+		}
+		lastReportAt = now;
+		const report: LogEntry<T> = {
+			level: "warn",
+			timestamp: now,
+			message: {
+				message: "cloki dropped log entries",
+				dropped: { ...dropped },
+			},
+			labels: { ...options.labels } as LokiLabels<T>,
+		};
+		dropped.sampled = 0;
+		dropped.rate_limited = 0;
+		return [report];
+	};
+
+	return {
+		process: (entry) => {
+			const now = Date.now();
+			const pending = dedup ? takeRepeats(now, false) : [];
+
+			if (!isSampled(entry)) {
+				dropped.sampled++;
+				return pending;
+			}
+
+			const key = dedup
+				? safeStringify([entry.level, entry.labels, entry.message])
+				: undefined;
+			const repeat = key === undefined ? undefined : repeats.get(key);
+			if (repeat) {
+				repeat.count++;
+				return pending;
+			}
+
+			if (!takeToken(now)) {
+				dropped.rate_limited++;
+				return pending;
+			}
+
+			// Only entries that were written are tracked, so repeats of a
+			// rate-limited entry count as rate_limited rather than repeats
+			if (dedup && key !== undefined) {
+				if (repeats.size >= (dedup.maxKeys ?? 1000)) {
+					const [oldestKey, oldest] = repeats.entries().next().value as [
+						string,
+						{ entry: LogEntry<T>; count: number; firstAt: number },
+					];
+					repeats.delete(oldestKey);
+					if (oldest.count > 0) {
+						pending.push(summarize(oldest, now));
+					}
+				}
+				repeats.set(key, { entry, count: 0, firstAt: now });
+			}
+
+			return [...takeReport(now, false), ...pending, entry];
+		},
+		flush: () => {
+			const now = Date.now();
+			return [...takeRepeats(now, true), ...takeReport(now, true)];
+		},
+	};
+};
+
+/**
+ * Map a string to [0, 1) deterministically (FNV-1a)
+ *
+ * @param value
+ */
+function hashToUnit(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0) / 0x100000000;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { safeStringify, toSerializable } from "./serialize";
+
+describe("toSerializable", () => {
+	it("should expand Error instances", () => {
+		const error = new TypeError("boom");
+		const result = toSerializable(error) as Record<string, unknown>;
+
+		expect(result.name).toBe("TypeError");
+		expect(result.message).toBe("boom");
+		expect(result.stack).toContain("boom");
+	});
+
+	it("should keep custom error properties", () => {
+		class HttpError extends Error {
+			status = 503;
+			constructor(message: string) {
+				super(message);
+				this.name = "HttpError";
+			}
+		}
+		const result = toSerializable(new HttpError("unavailable")) as Record<
+			string,
+			unknown
+		>;
+
+		expect(result.name).toBe("HttpError");
+		expect(result.status).toBe(503);
+	});
+
+	it("should follow the cause chain", () => {
+		const root = new Error("root");
+		const middle = Object.assign(new Error("middle"), { cause: root });
+		const top = Object.assign(new Error("top"), { cause: middle });
+		const result = toSerializable(top) as {
+			cause: { message: string; cause: { message: string } };
+		};
+
+		expect(result.cause.message).toBe("middle");
+		expect(result.cause.cause.message).toBe("root");
+	});
+
+	it("should expand AggregateError.errors", () => {
+		const AggregateErrorCtor = (
+			globalThis as unknown as {
+				AggregateError: new (errors: unknown[], message: string) => Error;
+			}
+		).AggregateError;
+		const error = new AggregateErrorCtor(
+			[new Error("first"), "second"],
+			"multiple",
+		);
+		const result = toSerializable(error) as {
+			message: string;
+			errors: unknown[];
+		};
+
+		expect(result.message).toBe("multiple");
+		expect(result.errors).toHaveLength(2);
+		expect((result.errors[0] as { message: string }).message).toBe("first");
+		expect(result.errors[1]).toBe("second");
+	});
+
+	it("should replace circular references", () => {
+		const value: Record<string, unknown> = { name: "loop" };
+		value.self = value;
+		const error = new Error("circular");
+		(error as unknown as { cause: unknown }).cause = error;
+
+		expect(toSerializable(value)).toEqual({ name: "loop", self: "[Circular]" });
+		expect((toSerializable(error) as { cause: unknown }).cause).toBe(
+			"[Circular]",
+		);
+	});
+
+	it("should keep shared references that are not circular", () => {
+		const shared = { id: 1 };
+		expect(toSerializable({ a: shared, b: shared })).toEqual({
+			a: { id: 1 },
+			b: { id: 1 },
+		});
+	});
+
+	it("should convert BigInt, Map, Set and Date", () => {
+		const date = new Date("2024-01-02T03:04:05.000Z");
+		expect(
+			toSerializable({
+				big: BigInt("12345678901234567890"),
+				map: new Map<unknown, unknown>([
+					["a", 1],
+					[2, new Set(["x"])],
+				]),
+				set: new Set([1, 2]),
+				date,
+			}),
+		).toEqual({
+			big: "12345678901234567890",
+			map: { a: 1, "2": ["x"] },
+			set: [1, 2],
+			date: "2024-01-02T03:04:05.000Z",
+		});
+	});
+
+	it("should convert Request, Response and Headers", () => {
+		const request = new Request("https://example.com/api", {
+			method: "POST",
+			headers: { "x-test": "1" },
+		});
+		const response = new Response("ok", { status: 201, statusText: "Created" });
+
+		expect(toSerializable(request)).toEqual({
+			method: "POST",
+			url: "https://example.com/api",
+		});
+		expect(toSerializable(response)).toMatchObject({
+			status: 201,
+			statusText: "Created",
+		});
+		expect(toSerializable(request.headers)).toEqual({ "x-test": "1" });
+	});
+
+	it("should not throw on throwing getters", () => {
+		const value = {
+			get broken() {
+				throw new Error("getter");
+			},
+		};
+		expect(toSerializable(value)).toEqual({
+			broken: "[Unserializable: Error: getter]",
+		});
+	});
+});
+
+describe("safeStringify", () => {
+	it("should match JSON.stringify for plain values", () => {
+		const value = { a: 1, b: ["x", null], c: { d: true }, e: undefined };
+		expect(safeStringify(value)).toBe(JSON.stringify(value));
+		expect(safeStringify(value, 2)).toBe(JSON.stringify(value, null, 2));
+	});
+
+	it("should stringify values JSON.stringify throws on", () => {
+		const value: Record<string, unknown> = { big: BigInt(1) };
+		value.self = value;
+		expect(safeStringify(value)).toBe('{"big":"1","self":"[Circular]"}');
+	});
+});
@@ -0,0 +1,171 @@
+/**
+ * Maximum nesting depth before values are replaced with a placeholder
+ */
+const MAX_DEPTH = 10;
+
+/**
+ * Convert a value into a JSON-safe structure.
+ * Expands Error objects (with cause chains and AggregateError.errors),
+ * Map/Set, BigInt, Request/Response and Headers, and replaces circular
+ * references with "[Circular]". Never throws.
+ *
+ * @param value
+ */
+export const toSerializable = (value: unknown): unknown =>
+	walk(value, new Set(), 0);
+
+/**
+ * JSON.stringify that never throws and keeps the details of Error objects
+ *
+ * @param value
+ * @param space
+ */
+export const safeStringify = (value: unknown, space?: number): string => {
+	try {
+		return JSON.stringify(toSerializable(value), null, space) ?? "null";
+	} catch (e) {
+		return JSON.stringify({ message: "[Unserializable]", error: String(e) });
+	}
+};
+
+/**
+ * Check if a value is an Error, including errors from other realms
+ *
+ * @param value
+ */
+export const isError = (value: unknown): value is Error =>
+	value instanceof Error ||
+	Object.prototype.toString.call(value) === "[object Error]";
+
+function walk(value: unknown, ancestors: Set<object>, depth: number): unknown {
+	switch (typeof value) {
+		case "bigint":
+			return value.toString();
+		case "function":
+			return `[Function ${value.name || "anonymous"}]`;
+		case "symbol":
+			return value.toString();
+		case "object":
+			break;
+		default:
+			return value;
+	}
+
+	if (value === null) {
+		return null;
+	}
+	if (ancestors.has(value)) {
+		return "[Circular]";
+	}
+	if (depth >= MAX_DEPTH) {
+		return Array.isArray(value) ? "[Array]" : "[Object]";
+	}
+
+	ancestors.add(value);
+	try {
+		return walkObject(value, ancestors, depth + 1);
+	} catch (e) {
+		return `[Unserializable: ${String(e)}]`;
+	} finally {
+		ancestors.delete(value);
+	}
+}
+
+function walkObject(
+	value: object,
+	ancestors: Set<object>,
+	depth: number,
+): unknown {
+	const next = (v: unknown) => walk(v, ancestors, depth);
+
+	if (isError(value)) {
+		return serializeError(value, next);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => {
+			const serialized = next(item);
+			// Keep array positions like JSON.stringify does
+			return serialized === undefined ? null : serialized;
+		});
+	}
+	if (value instanceof Map) {
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of value) {
+			result[typeof key === "object" ? safeStringify(key) : String(key)] =
+				next(item);
+		}
+		return result;
+	}
+	if (value instanceof Set) {
+		return Array.from(value, next);
+	}
+	if (typeof Headers !== "undefined" && value instanceof Headers) {
+		const result: Record<string, string> = {};
+		value.forEach((headerValue, key) => {
+			result[key] = headerValue;
+		});
+		return result;
+	}
+	if (typeof Request !== "undefined" && value instanceof Request) {
+		return { method: value.method, url: value.url };
+	}
+	if (typeof Response !== "undefined" && value instanceof Response) {
+		return {
+			status: value.status,
+			statusText: value.statusText,
+			url: value.url,
+		};
+	}
+
+	const toJSON = (value as { toJSON?: unknown }).toJSON;
+	if (typeof toJSON === "function") {
+		return next(toJSON.call(value));
+	}
+
+	return serializeProperties(value, next, {});
+}
+
+function serializeError(
+	error: Error,
+	next: (value: unknown) => unknown,
+): Record<string, unknown> {
+	const result: Record<string, unknown> = {
+		name: error.name,
+		message: error.message,
+	};
+	if (error.stack) {
+		result.stack = error.stack;
+	}
+
+	serializeProperties(error, next, result);
+
+	const { cause } = error as { cause?: unknown };
+	if (cause !== undefined) {
+		result.cause = next(cause);
+	}
+	const { errors } = error as { errors?: unknown };
+	if (Array.isArray(errors)) {
+		result.errors = next(errors);
+	}
+	return result;
+}
+
+function serializeProperties(
+	value: object,
+	next: (value: unknown) => unknown,
+	result: Record<string, unknown>,
+): Record<string, unknown> {
+	for (const key of Object.keys(value)) {
+		let item: unknown;
+		try {
+			item = (value as Record<string, unknown>)[key];
+		} catch (e) {
+			item = `[Unserializable: ${String(e)}]`;
+		}
+		const serialized = next(item);
+		if (serialized !== undefined) {
+			result[key] = serialized;
+		}
+	}
+	return result;
+}
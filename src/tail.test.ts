@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTailHandler, type TraceItemLike } from "./tail";
+import { memoryTransport } from "./transports";
+
+const fetchItem = (overrides: Partial<TraceItemLike> = {}): TraceItemLike => ({
+	scriptName: "api",
+	outcome: "ok",
+	eventTimestamp: 1700000000000,
+	event: {
+		request: {
+			method: "GET",
+			url: "https://example.com/users",
+			headers: { "cf-ray": "ray-1", "user-agent": "curl" },
+		},
+		response: { status: 200 },
+	},
+	logs: [
+		{ timestamp: 1700000000001, level: "log", message: ["hello", 1] },
+		{ timestamp: 1700000000002, level: "warn", message: [{ user: "a" }] },
+	],
+	exceptions: [],
+	cpuTime: 3,
+	wallTime: 12,
+	...overrides,
+});
+
+describe("createTailHandler", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should map logs and the outcome of a TraceItem", async () => {
+		const memory = memoryTransport();
+		const tail = createTailHandler({
+			transports: [memory],
+			defaultLabels: { env: "prod" },
+		});
+
+		await tail([fetchItem()]);
+
+		expect(memory.entries).toEqual([
+			{
+				level: "info",
+				timestamp: 1700000000001,
+				message: { message: "hello 1" },
+				labels: {
+					env: "prod",
+					script_name: "api",
+					event_type: "fetch",
+					outcome: "ok",
+					http_method: "GET",
+					http_url: "https://example.com/users",
+					http_user_agent: "curl",
+					trace_id: "ray-1",
+				},
+			},
+			expect.objectContaining({
+				level: "warn",
+				timestamp: 1700000000002,
+				message: { user: "a" },
+			}),
+			expect.objectContaining({
+				level: "info",
+				timestamp: 1700000000000,
+				message: expect.objectContaining({
+					message: "api fetch ok",
+					http_status: 200,
+					cpu_time_ms: 3,
+					wall_time_ms: 12,
+				}),
+			}),
+		]);
+	});
+
+	it("should log exceptions and failed outcomes as errors", async () => {
+		const memory = memoryTransport();
+		const tail = createTailHandler({ transports: [memory] });
+
+		await tail([
+			{
+				scriptName: "cron",
+				outcome: "exception",
+				eventTimestamp: 1,
+				event: { cron: "0 * * * *", scheduledTime: 1 },
+				logs: [],
+				exceptions: [
+					{ timestamp: 2, name: "TypeError", message: "x is undefined" },
+				],
+			},
+		]);
+
+		expect(memory.entries.map((entry) => entry.level)).toEqual([
+			"error",
+			"error",
+		]);
+		expect(memory.entries[0].message).toEqual({
+			message: "x is undefined",
+			error: { name: "TypeError", message: "x is undefined" },
+		});
+		expect(memory.entries[1]).toMatchObject({
+			labels: { event_type: "scheduled", outcome: "exception" },
+			message: { message: "cron scheduled exception", cron: "0 * * * *" },
+		});
+	});
+
+	it("should filter by script name and outcome", async () => {
+		const memory = memoryTransport();
+		const tail = createTailHandler({
+			transports: [memory],
+			scriptNames: ["api"],
+			outcomes: ["exception", "exceededCpu"],
+		});
+
+		await tail([
+			fetchItem(),
+			fetchItem({ outcome: "exceededCpu", logs: [] }),
+			fetchItem({ scriptName: "other", outcome: "exception", logs: [] }),
+		]);
+
+		expect(memory.entries).toHaveLength(1);
+		expect(memory.entries[0].labels.outcome).toBe("exceededCpu");
+	});
+
+	it("should respect transport minLevel and redaction", async () => {
+		const memory = memoryTransport({ minLevel: "warn" });
+		const tail = createTailHandler({
+			transports: [memory],
+			redact: { paths: ["user"] },
+		});
+
+		await tail([fetchItem()]);
+
+		expect(memory.entries.map((entry) => entry.message)).toEqual([
+			{ user: "[REDACTED]" },
+		]);
+	});
+});
+
+describe("createTailHandler with Loki", () => {
+	beforeEach(() => {
+		global.fetch = vi.fn(
+			async () => ({ ok: true }) as Response,
+		) as unknown as typeof fetch;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should push all entries in one request per invocation", async () => {
+		const waitUntil = vi.fn();
+		const tail = createTailHandler((env: { LOKI_URL: string }) => ({
+			lokiUrl: env.LOKI_URL,
+			structuredMetadataKeys: [],
+		}));
+
+		await tail(
+			[fetchItem(), fetchItem()],
+			{ LOKI_URL: "http://loki" },
+			{ waitUntil },
+		);
+		await waitUntil.mock.calls[0][0];
+
+		const fetchMock = fetch as unknown as {
+			mock: { calls: [string, { body: string }][] };
+		};
+		expect(fetchMock.mock.calls).toHaveLength(1);
+		expect(fetchMock.mock.calls[0][0]).toBe("http://loki/loki/api/v1/push");
+		const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+		expect(
+			body.streams.map((stream: { values: unknown[] }) => stream.values.length),
+		).toEqual([4, 2]);
+	});
+});
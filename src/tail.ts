@@ -0,0 +1,328 @@
+import { isLevelEnabled, type LogLevel } from "./levels";
+import type { ExecutionContext, LokiLabels } from "./logger";
+import { type LokiTransportConfig, lokiTransport } from "./loki";
+import { createRedactor, type RedactConfig } from "./redact";
+import { safeStringify } from "./serialize";
+import type { LogEntry, Transport } from "./transports";
+
+/**
+ * Tail handler config
+ */
+export type TailHandlerConfig<T extends string = string> =
+	LokiTransportConfig<T> & {
+		/**
+		 * Labels added to all forwarded logs
+		 */
+		defaultLabels?: LokiLabels<T>;
+		/**
+		 * Destinations for logs (default: the Loki transport)
+		 */
+		transports?: Transport<T>[];
+		/**
+		 * Redact secrets from forwarded messages and labels
+		 */
+		redact?: RedactConfig;
+		/**
+		 * Only forward events of these scripts
+		 */
+		scriptNames?: string[];
+		/**
+		 * Only forward events with these outcomes (e.g. ["exception", "exceededCpu"])
+		 */
+		outcomes?: string[];
+	};
+
+/**
+ * console.* call captured by the Workers runtime
+ */
+export type TraceLogLike = {
+	timestamp: number;
+	level: string;
+	message: unknown;
+};
+
+/**
+ * Uncaught exception captured by the Workers runtime
+ */
+export type TraceExceptionLike = {
+	timestamp: number;
+	name: string;
+	message: string;
+	stack?: string;
+};
+
+/**
+ * Cloudflare Workers TraceItem received by a Tail Worker
+ */
+export type TraceItemLike = {
+	scriptName: string | null;
+	outcome: string;
+	eventTimestamp: number | null;
+	event: Record<string, unknown> | null;
+	logs: TraceLogLike[];
+	exceptions: TraceExceptionLike[];
+	cpuTime?: number;
+	wallTime?: number;
+	truncated?: boolean;
+	entrypoint?: string;
+};
+
+/**
+ * Create a Tail Worker tail() handler that forwards TraceItems to Loki.
+ * Each TraceItem becomes its console logs, its exceptions and one summary
+ * log with the outcome and CPU/wall time, labeled with script_name,
+ * event_type and outcome.
+ *
+ * @param config config, or a function building it from the Worker env
+ */
+export const createTailHandler = <T extends string = string, E = unknown>(
+	config: TailHandlerConfig<T> | ((env: E) => TailHandlerConfig<T>),
+) => {
+	let resolved: ReturnType<typeof resolveTailConfig<T>> | undefined;
+
+	return async (
+		events: TraceItemLike[],
+		env?: E,
+		ctx?: ExecutionContext,
+	): Promise<void> => {
+		if (typeof config === "function") {
+			resolved = resolveTailConfig(config(env as E));
+		} else if (!resolved) {
+			resolved = resolveTailConfig(config);
+		}
+		const { config: tailConfig, transports, redactor } = resolved;
+
+		const promises: Promise<void>[] = [];
+		for (const item of events) {
+			if (!shouldForward(tailConfig, item)) {
+				continue;
+			}
+			for (const entry of getTraceItemEntries(tailConfig, item)) {
+				const redacted = redactor
+					? {
+							...entry,
+							message: redactor.message(entry.message) as object,
+							labels: redactor.labels(entry.labels) as LokiLabels<T>,
+						}
+					: entry;
+				for (const transport of transports) {
+					if (
+						transport.minLevel &&
+						!isLevelEnabled(redacted.level, transport.minLevel)
+					) {
+						continue;
+					}
+					const promise = transport.write(redacted);
+					if (promise) {
+						promises.push(promise);
+					}
+				}
+			}
+		}
+
+		const delivery = Promise.all(promises).then(() =>
+			Promise.all(transports.map((transport) => transport.flush?.())),
+		);
+		if (ctx) {
+			ctx.waitUntil(delivery);
+		} else {
+			await delivery;
+		}
+	};
+};
+
+function resolveTailConfig<T extends string>(config: TailHandlerConfig<T>) {
+	return {
+		config,
+		transports: config.transports ?? [
+			lokiTransport({ batch: true, ...config }),
+		],
+		redactor: config.redact ? createRedactor(config.redact) : undefined,
+	};
+}
+
+function shouldForward<T extends string>(
+	config: TailHandlerConfig<T>,
+	item: TraceItemLike,
+): boolean {
+	if (
+		config.scriptNames &&
+		!config.scriptNames.includes(item.scriptName ?? "")
+	) {
+		return false;
+	}
+	return !config.outcomes || config.outcomes.includes(item.outcome);
+}
+
+/**
+ * Map a TraceItem to log entries
+ *
+ * @param config
+ * @param item
+ */
+export function getTraceItemEntries<T extends string>(
+	config: TailHandlerConfig<T>,
+	item: TraceItemLike,
+): LogEntry<T>[] {
+	const eventType = getEventType(item.event);
+	const labels = {
+		...config.defaultLabels,
+		script_name: item.scriptName ?? "unknown",
+		event_type: eventType,
+		outcome: item.outcome,
+		...getEventLabels(item.event),
+	} as LokiLabels<T>;
+
+	const entries: LogEntry<T>[] = item.logs.map((log) => ({
+		level: getConsoleLevel(log.level),
+		timestamp: log.timestamp,
+		message: getConsoleMessage(log.message),
+		labels,
+	}));
+
+	for (const exception of item.exceptions) {
+		entries.push({
+			level: "error",
+			timestamp: exception.timestamp,
+			message: {
+				message: exception.message,
+				error: {
+					name: exception.name,
+					message: exception.message,
+					stack: exception.stack,
+				},
+			},
+			labels,
+		});
+	}
+
+	entries.push({
+		level: item.outcome === "ok" ? "info" : "error",
+		timestamp: item.eventTimestamp ?? Date.now(),
+		message: {
+			message: `${item.scriptName ?? "unknown"} ${eventType} ${item.outcome}`,
+			entrypoint: item.entrypoint,
+			cpu_time_ms: item.cpuTime,
+			wall_time_ms: item.wallTime,
+			truncated: item.truncated || undefined,
+			...getEventFields(item.event),
+		},
+		labels,
+	});
+
+	return entries;
+}
+
+/**
+ * Get the handler type from the shape of TraceItem.event
+ *
+ * @param event
+ */
+function getEventType(event: TraceItemLike["event"]): string {
+	if (!event) {
+		return "unknown";
+	}
+	if ("request" in event) {
+		return "fetch";
+	}
+	if ("cron" in event) {
+		return "scheduled";
+	}
+	if ("queue" in event) {
+		return "queue";
+	}
+	if ("mailFrom" in event) {
+		return "email";
+	}
+	if ("scheduledTime" in event) {
+		return "alarm";
+	}
+	if ("consumedEvents" in event) {
+		return "tail";
+	}
+	if ("rpcMethod" in event) {
+		return "rpc";
+	}
+	return "custom";
+}
+
+/**
+ * Request labels of fetch events, named like the logger's request labels
+ *
+ * @param event
+ */
+function getEventLabels(event: TraceItemLike["event"]): Record<string, string> {
+	const request = event?.request as
+		| { method?: string; url?: string; headers?: Record<string, string> }
+		| undefined;
+	if (!request) {
+		return {};
+	}
+	const labels: Record<string, string> = {};
+	if (request.method) {
+		labels.http_method = request.method;
+	}
+	if (request.url) {
+		labels.http_url = request.url;
+	}
+	const headers = request.headers ?? {};
+	if (headers["user-agent"]) {
+		labels.http_user_agent = headers["user-agent"];
+	}
+	if (headers["cf-ray"]) {
+		labels.trace_id = headers["cf-ray"];
+	}
+	return labels;
+}
+
+function getEventFields(
+	event: TraceItemLike["event"],
+): Record<string, unknown> {
+	if (!event) {
+		return {};
+	}
+	const response = event.response as { status?: number } | undefined;
+	return {
+		http_status: response?.status,
+		cron: event.cron,
+		queue: event.queue,
+		batch_size: event.batchSize,
+		email_from: event.mailFrom,
+		email_to: event.rcptTo,
+		rpc_method: event.rpcMethod,
+	};
+}
+
+function getConsoleLevel(level: string): LogLevel {
+	switch (level) {
+		case "debug":
+		case "warn":
+		case "error":
+			return level;
+		default:
+			return "info";
+	}
+}
+
+/**
+ * console.* arguments: a single object is kept, anything else is joined
+ * into a message string
+ *
+ * @param message
+ */
+function getConsoleMessage(message: unknown): object {
+	const args = Array.isArray(message) ? message : [message];
+	if (
+		args.length === 1 &&
+		typeof args[0] === "object" &&
+		args[0] !== null &&
+		!Array.isArray(args[0])
+	) {
+		return args[0];
+	}
+	return {
+		message: args
+			.map((arg) => (typeof arg === "string" ? arg : safeStringify(arg)))
+			.join(" "),
+	};
+}
@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getLokiLogger } from "./logger";
+import { type LokiEncoding, LokiPushError, lokiTransport } from "./loki";
+import {
+	assertLogged,
+	createFakeLoki,
+	createTestLogger,
+	type LogMatcher,
+	logMatchers,
+} from "./testing";
+
+declare module "vitest" {
+	interface Matchers<T> {
+		toHaveLogged: (matcher: LogMatcher) => T;
+	}
+}
+
+expect.extend(logMatchers);
+
+describe("createTestLogger", () => {
+	it("should capture logs of the logger and its children", async () => {
+		const logger = createTestLogger({ defaultLabels: { app: "api" } });
+		await logger.info("Started", { route: "/users" });
+		await logger.child({}, { request_id: "r1" }).error(new Error("boom"));
+
+		expect(logger.entries).toHaveLength(2);
+		expect(logger).toHaveLogged({
+			level: "info",
+			message: "Started",
+			labels: { app: "api", route: /^\/users/ },
+		});
+		expect(logger).toHaveLogged({
+			level: "error",
+			fields: { request_id: "r1", error: expect.any(Error) },
+		});
+		expect(logger).not.toHaveLogged({ level: "warn" });
+		expect(logger.find({ message: /boom/ })).toEqual([logger.entries[1]]);
+
+		logger.clear();
+		expect(logger.entries).toEqual([]);
+	});
+
+	it("should describe the captured logs when nothing matches", async () => {
+		const logger = createTestLogger();
+		await logger.info({ message: "Started", port: 8080 });
+
+		expect(() => assertLogged(logger, { fields: { port: 80 } })).toThrow(
+			'Expected a log matching {"fields":{"port":80}}, received 1 logs:\n  info {} {"message":"Started","port":8080}',
+		);
+	});
+});
+
+describe("createFakeLoki", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it.each(["json", "gzip", "protobuf"] as LokiEncoding[])(
+		"should decode %s pushes",
+		async (encoding) => {
+			const fakeLoki = createFakeLoki();
+			const logger = getLokiLogger({
+				transports: [
+					lokiTransport({
+						lokiUrl: "http://loki",
+						lokiToken: "token",
+						fetcher: fakeLoki,
+						encoding,
+					}),
+				],
+			});
+			await logger.warn({ message: "Slow", duration_ms: 1200 }, { app: "api" });
+
+			expect(fakeLoki.requests).toMatchObject([
+				{
+					url: "http://loki/loki/api/v1/push",
+					headers: { authorization: "Bearer token" },
+					encoding,
+					status: 204,
+				},
+			]);
+			expect(fakeLoki.entries).toEqual([
+				{
+					timestamp: expect.stringMatching(/^\d{19}$/),
+					labels: { level: "warn", app: "api" },
+					line: '{"message":"Slow","duration_ms":1200}',
+					message: { message: "Slow", duration_ms: 1200 },
+				},
+			]);
+			expect(fakeLoki).toHaveLogged({
+				level: "warn",
+				labels: { app: "api" },
+				fields: { duration_ms: 1200 },
+			});
+		},
+	);
+
+	it("should inject failures to exercise retries", async () => {
+		const fakeLoki = createFakeLoki().fail({ status: 503, times: 2 });
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					fetcher: fakeLoki,
+					retries: 2,
+					retryPolicy: { baseDelayMs: 0 },
+				}),
+			],
+		});
+		await logger.info("Retried");
+
+		expect(fakeLoki.requests.map((request) => request.status)).toEqual([
+			503, 503, 204,
+		]);
+		expect(fakeLoki.entries).toHaveLength(1);
+	});
+
+	it("should report injected errors to onSendError", async () => {
+		const fakeLoki = createFakeLoki()
+			.fail({ status: 400, body: "entry out of order" })
+			.fail({ error: new TypeError("Network connection lost") });
+		const onSendError = vi.fn();
+		const logger = getLokiLogger({
+			transports: [
+				lokiTransport({
+					lokiUrl: "http://loki",
+					fetcher: fakeLoki,
+					onSendError,
+				}),
+			],
+		});
+		await logger.info("first");
+		await logger.info("second");
+
+		expect(onSendError.mock.calls.map(([error]) => error)).toEqual([
+			expect.any(LokiPushError),
+			new TypeError("Network connection lost"),
+		]);
+		expect(onSendError.mock.calls[0][0]).toMatchObject({
+			status: 400,
+			body: "entry out of order",
+		});
+		expect(fakeLoki.entries).toEqual([]);
+	});
+
+	it("should delay responses", async () => {
+		vi.useFakeTimers();
+		const fakeLoki = createFakeLoki({ latencyMs: 1000 });
+		const response = fakeLoki.fetch("http://loki/loki/api/v1/push", {
+			method: "POST",
+			body: JSON.stringify({
+				streams: [{ stream: { level: "info" }, values: [["1", "slow"]] }],
+			}),
+		});
+
+		await vi.advanceTimersByTimeAsync(999);
+		expect(fakeLoki.requests).toHaveLength(0);
+		await vi.advanceTimersByTimeAsync(1);
+		expect((await response).status).toBe(204);
+		expect(fakeLoki.entries.map((entry) => entry.line)).toEqual(["slow"]);
+
+		fakeLoki.reset();
+		expect(fakeLoki.requests).toEqual([]);
+	});
+});
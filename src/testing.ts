@@ -0,0 +1,432 @@
+import { decodePushRequest, gunzip, snappyUncompress } from "./encoding";
+import type { FetchLike } from "./fetch";
+import type { LogLevel } from "./levels";
+import { getLokiLogger, type LokiConfig, type LokiLogger } from "./logger";
+import type { LokiEncoding, LokiMessage } from "./loki";
+import type { LokiLogLine } from "./query";
+import { safeStringify } from "./serialize";
+import { type LogEntry, memoryTransport } from "./transports";
+
+/**
+ * Expected level, message, labels and fields of a log.
+ * Strings of labels and message may be RegExps, fields match partially
+ */
+export type LogMatcher<T extends string = string> = {
+	level?: LogLevel;
+	/**
+	 * The message field, or the raw line of a non-JSON Loki line
+	 */
+	message?: string | RegExp;
+	labels?: { [key in T]?: string | RegExp } & {
+		[key: string]: string | RegExp;
+	};
+	/**
+	 * Fields of the message object. Objects match partially and asymmetric
+	 * matchers like expect.any(Number) are supported
+	 */
+	fields?: Record<string, unknown>;
+};
+
+/**
+ * Log captured by a test logger or received by a fake Loki
+ */
+export type CapturedLog<T extends string = string> = LogEntry<T> | LokiLogLine;
+
+/**
+ * Logs to match, or an object holding them like a test logger or fake Loki
+ */
+export type CapturedLogs<T extends string = string> =
+	| CapturedLog<T>[]
+	| { entries: CapturedLog<T>[] };
+
+/**
+ * Logger that keeps its logs in memory
+ */
+export type TestLogger<T extends string = string> = LokiLogger<T> & {
+	/**
+	 * Logs of this logger and its children, oldest first
+	 */
+	entries: LogEntry<T>[];
+	clear: () => void;
+	/**
+	 * Logs matching the matcher
+	 */
+	find: (matcher: LogMatcher<T>) => LogEntry<T>[];
+};
+
+/**
+ * Create a logger that captures logs instead of sending them
+ *
+ * @param config
+ */
+export const createTestLogger = <T extends string = string>(
+	config: Omit<LokiConfig<T>, "transports" | "silent"> = {},
+): TestLogger<T> => {
+	const memory = memoryTransport<T>();
+	const logger = getLokiLogger<T>({ ...config, transports: [memory] });
+	return {
+		...logger,
+		entries: memory.entries,
+		clear: memory.clear,
+		find: (matcher) => findLogs(memory.entries, matcher),
+	};
+};
+
+/**
+ * Check if a log matches
+ *
+ * @param log
+ * @param matcher
+ */
+export function matchesLog<T extends string>(
+	log: CapturedLog<T>,
+	matcher: LogMatcher<T>,
+): boolean {
+	const { level, labels, fields } = normalizeLog(log);
+	if (matcher.level !== undefined && level !== matcher.level) {
+		return false;
+	}
+	if (
+		matcher.message !== undefined &&
+		!matchesValue(fields.message, matcher.message)
+	) {
+		return false;
+	}
+	return (
+		matchesValue(labels, matcher.labels ?? {}) &&
+		matchesValue(fields, matcher.fields ?? {})
+	);
+}
+
+/**
+ * Get the logs that match
+ *
+ * @param logs
+ * @param matcher
+ */
+export function findLogs<L extends CapturedLog<T>, T extends string = string>(
+	logs: L[] | { entries: L[] },
+	matcher: LogMatcher<T>,
+): L[] {
+	const entries = Array.isArray(logs) ? logs : logs.entries;
+	return entries.filter((log) => matchesLog(log, matcher));
+}
+
+/**
+ * Throw if no log matches. Works with any test framework
+ *
+ * @param logs
+ * @param matcher
+ */
+export function assertLogged<T extends string>(
+	logs: CapturedLogs<T>,
+	matcher: LogMatcher<T>,
+): void {
+	if (findLogs(logs, matcher).length === 0) {
+		throw new Error(describeMismatch(logs, matcher, false));
+	}
+}
+
+/**
+ * Matchers for expect.extend in Vitest or Jest:
+ *
+ * expect.extend(logMatchers);
+ * expect(logger).toHaveLogged({ level: "error", labels: { app: "api" } });
+ */
+export const logMatchers = {
+	toHaveLogged(received: CapturedLogs, matcher: LogMatcher) {
+		const pass = findLogs(received, matcher).length > 0;
+		return {
+			pass,
+			message: () => describeMismatch(received, matcher, pass),
+		};
+	},
+};
+
+/**
+ * Fault injected into the responses of a fake Loki
+ */
+export type FakeLokiFault = {
+	/**
+	 * Response status (default: 500)
+	 */
+	status?: number;
+	body?: string;
+	/**
+	 * Response headers, e.g. Retry-After
+	 */
+	headers?: Record<string, string>;
+	/**
+	 * Reject the fetch with this error like a network failure
+	 */
+	error?: Error;
+	/**
+	 * Delay before the response in ms
+	 */
+	latencyMs?: number;
+	/**
+	 * Number of requests the fault applies to (default: 1)
+	 */
+	times?: number;
+};
+
+/**
+ * Push request received by a fake Loki
+ */
+export type FakeLokiRequest = {
+	url: string;
+	/**
+	 * Lower-cased header names
+	 */
+	headers: Record<string, string>;
+	encoding: LokiEncoding;
+	message: LokiMessage;
+	/**
+	 * Response status, undefined for injected network errors
+	 */
+	status?: number;
+};
+
+/**
+ * In-memory Loki push endpoint
+ */
+export type FakeLoki = {
+	/**
+	 * Pass the fake Loki as fetcher, or stub the global fetch with this
+	 */
+	fetch: FetchLike;
+	/**
+	 * All decoded push requests, including failed ones
+	 */
+	requests: FakeLokiRequest[];
+	/**
+	 * Lines of successful pushes, in the order received
+	 */
+	entries: LokiLogLine[];
+	/**
+	 * Queue a fault for the next requests
+	 */
+	fail: (fault?: FakeLokiFault) => FakeLoki;
+	/**
+	 * Forget requests, entries and pending faults
+	 */
+	reset: () => void;
+};
+
+/**
+ * Create a fake Loki that decodes JSON, gzip and protobuf pushes
+ *
+ * @param options latencyMs delays every response
+ */
+export const createFakeLoki = (
+	options: { latencyMs?: number } = {},
+): FakeLoki => {
+	const requests: FakeLokiRequest[] = [];
+	const entries: LokiLogLine[] = [];
+	const faults: FakeLokiFault[] = [];
+
+	const nextFault = (): FakeLokiFault | undefined => {
+		const fault = faults[0];
+		if (fault && (fault.times ?? 1) <= 1) {
+			faults.shift();
+		} else if (fault) {
+			faults[0] = { ...fault, times: (fault.times ?? 1) - 1 };
+		}
+		return fault;
+	};
+
+	const fakeLoki: FakeLoki = {
+		fetch: async (input, init) => {
+			const fault = nextFault();
+			const latencyMs = fault?.latencyMs ?? options.latencyMs;
+			if (latencyMs) {
+				await new Promise((resolve) => setTimeout(resolve, latencyMs));
+			}
+
+			const headers: Record<string, string> = {};
+			new Headers(init.headers).forEach((value, key) => {
+				headers[key] = value;
+			});
+			let request: FakeLokiRequest;
+			try {
+				request = {
+					url: input,
+					headers,
+					...(await decodePushBody(headers, init.body)),
+				};
+			} catch (e) {
+				return new Response(String(e), { status: 400 });
+			}
+			requests.push(request);
+
+			if (fault?.error) {
+				throw fault.error;
+			}
+			if (fault) {
+				request.status = fault.status ?? 500;
+				return new Response(fault.body ?? "", {
+					status: request.status,
+					headers: fault.headers,
+				});
+			}
+			request.status = 204;
+			entries.push(...getLogLines(request.message));
+			return new Response(null, { status: 204 });
+		},
+		requests,
+		entries,
+		fail: (fault = {}) => {
+			faults.push(fault);
+			return fakeLoki;
+		},
+		reset: () => {
+			requests.length = 0;
+			entries.length = 0;
+			faults.length = 0;
+		},
+	};
+	return fakeLoki;
+};
+
+/**
+ * Decode a push body by its Content-Type and Content-Encoding
+ *
+ * @param headers
+ * @param body
+ */
+async function decodePushBody(
+	headers: Record<string, string>,
+	body: RequestInit["body"],
+): Promise<{ encoding: LokiEncoding; message: LokiMessage }> {
+	const buffer = await new Response(body).arrayBuffer();
+	if (headers["content-type"] === "application/x-protobuf") {
+		return {
+			encoding: "protobuf",
+			message: decodePushRequest(snappyUncompress(new Uint8Array(buffer))),
+		};
+	}
+	if (headers["content-encoding"] === "gzip") {
+		return { encoding: "gzip", message: JSON.parse(await gunzip(buffer)) };
+	}
+	return {
+		encoding: "json",
+		message: JSON.parse(new TextDecoder().decode(buffer)),
+	};
+}
+
+/**
+ * Flatten the streams of a Loki message into lines
+ *
+ * @param lokiMessage
+ */
+function getLogLines(lokiMessage: LokiMessage): LokiLogLine[] {
+	return lokiMessage.streams.flatMap(({ stream, values }) =>
+		values.map(([timestamp, line, metadata]) => {
+			const logLine: LokiLogLine = { timestamp, labels: { ...stream }, line };
+			const message = parseJsonObject(line);
+			if (message) {
+				logLine.message = message;
+			}
+			if (metadata) {
+				logLine.metadata = metadata;
+			}
+			return logLine;
+		}),
+	);
+}
+
+function parseJsonObject(line: string): Record<string, unknown> | undefined {
+	try {
+		const parsed = JSON.parse(line);
+		return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+			? parsed
+			: undefined;
+	} catch (_e) {
+		return undefined;
+	}
+}
+
+/**
+ * Get the level, labels and message fields of a captured log
+ *
+ * @param log
+ */
+function normalizeLog(log: CapturedLog<string>): {
+	level?: string;
+	labels: Record<string, string>;
+	fields: Record<string, unknown>;
+} {
+	if ("line" in log) {
+		return {
+			level: log.labels.level,
+			labels: log.labels,
+			fields: log.message ?? { message: log.line },
+		};
+	}
+	return {
+		level: log.level,
+		labels: log.labels,
+		fields: log.message as Record<string, unknown>,
+	};
+}
+
+/**
+ * Match a value against an expected value: RegExps test strings,
+ * objects match partially, arrays element by element
+ *
+ * @param actual
+ * @param expected
+ */
+function matchesValue(actual: unknown, expected: unknown): boolean {
+	if (expected instanceof RegExp) {
+		return typeof actual === "string" && expected.test(actual);
+	}
+	if (
+		expected &&
+		typeof (expected as { asymmetricMatch?: unknown }).asymmetricMatch ===
+			"function"
+	) {
+		return (
+			expected as { asymmetricMatch: (actual: unknown) => boolean }
+		).asymmetricMatch(actual);
+	}
+	if (Array.isArray(expected)) {
+		return (
+			Array.isArray(actual) &&
+			actual.length === expected.length &&
+			expected.every((item, i) => matchesValue(actual[i], item))
+		);
+	}
+	if (expected && typeof expected === "object") {
+		if (!actual || typeof actual !== "object") {
+			return false;
+		}
+		return Object.entries(expected).every(([key, value]) =>
+			matchesValue((actual as Record<string, unknown>)[key], value),
+		);
+	}
+	return Object.is(actual, expected);
+}
+
+function describeMismatch<T extends string>(
+	logs: CapturedLogs<T>,
+	matcher: LogMatcher<T>,
+	pass: boolean,
+): string {
+	const entries = Array.isArray(logs) ? logs : logs.entries;
+	const expected = safeStringify({
+		...matcher,
+		message: matcher.message?.toString(),
+	});
+	if (pass) {
+		return `Expected no log matching ${expected}`;
+	}
+	const received = entries.map((log) => {
+		const { level, labels, fields } = normalizeLog(log);
+		return `  ${level} ${safeStringify(labels)} ${safeStringify(fields)}`;
+	});
+	return [
+		`Expected a log matching ${expected}, received ${entries.length} logs:`,
+		...received,
+	].join("\n");
+}
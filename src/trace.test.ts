@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getCurrentLogger } from "./context";
+import { getLokiLogger } from "./logger";
+import {
+	formatTraceparent,
+	generateSpanId,
+	generateTraceId,
+	parseTraceparent,
+} from "./trace";
+import { memoryTransport } from "./transports";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+const TRACEPARENT = `00-${TRACE_ID}-${PARENT_ID}-01`;
+
+describe("Trace Context", () => {
+	it("should parse a traceparent header", () => {
+		expect(parseTraceparent(TRACEPARENT, "vendor=value")).toEqual({
+			traceId: TRACE_ID,
+			spanId: PARENT_ID,
+			traceFlags: "01",
+			traceState: "vendor=value",
+			remote: true,
+		});
+	});
+
+	it.each([
+		[undefined],
+		[""],
+		["garbage"],
+		[`00-${"0".repeat(32)}-${PARENT_ID}-01`],
+		[`00-${TRACE_ID}-${"0".repeat(16)}-01`],
+		[`ff-${TRACE_ID}-${PARENT_ID}-01`],
+		[`00-${TRACE_ID}-${PARENT_ID}-01-extra`],
+	])("should reject invalid traceparent %s", (header) => {
+		expect(parseTraceparent(header)).toBeUndefined();
+	});
+
+	it("should accept future versions with extra fields", () => {
+		expect(
+			parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-01-extra`)?.traceId,
+		).toBe(TRACE_ID);
+	});
+
+	it("should format a traceparent header", () => {
+		expect(
+			formatTraceparent({
+				traceId: TRACE_ID,
+				spanId: PARENT_ID,
+				traceFlags: "01",
+			}),
+		).toBe(TRACEPARENT);
+	});
+
+	it("should generate random ids", () => {
+		expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+		expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+		expect(generateTraceId()).not.toBe(generateTraceId());
+	});
+});
+
+describe("Spans", () => {
+	const request = new Request("https://example.com/api", {
+		headers: {
+			traceparent: TRACEPARENT,
+			tracestate: "vendor=value",
+			"cf-ray": "ray-123",
+		},
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should use the incoming trace id for request logs", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory], request });
+		await logger.info("test");
+
+		expect(memory.entries[0].labels.trace_id).toBe(TRACE_ID);
+		expect(memory.entries[0].labels.span_id).toBeUndefined();
+	});
+
+	it("should start spans as children of the incoming trace", async () => {
+		const dateNowSpy = vi.spyOn(Date, "now").mockReturnValue(1000);
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory], request });
+
+		const span = logger.startSpan("db.query", { table: "users" });
+		expect(span.traceId).toBe(TRACE_ID);
+		expect(span.parentSpanId).toBe(PARENT_ID);
+
+		await span.logger.info("inside");
+		span.setAttribute("rows", 3).setStatus("ok");
+		dateNowSpy.mockReturnValue(1025);
+		await span.end();
+
+		expect(memory.entries.map((entry) => entry.labels)).toEqual([
+			expect.objectContaining({ trace_id: TRACE_ID, span_id: span.spanId }),
+			expect.objectContaining({ trace_id: TRACE_ID, span_id: span.spanId }),
+		]);
+		expect(memory.entries[1]).toMatchObject({
+			level: "info",
+			message: {
+				message: "Span db.query ended",
+				span_name: "db.query",
+				duration_ms: 25,
+				status: "ok",
+				parent_span_id: PARENT_ID,
+				attributes: { table: "users", rows: 3 },
+			},
+		});
+	});
+
+	it("should nest spans and start a new trace without a parent", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory] });
+
+		const parent = logger.startSpan("parent");
+		const child = parent.logger.startSpan("child");
+
+		expect(parent.parentSpanId).toBeUndefined();
+		expect(child.traceId).toBe(parent.traceId);
+		expect(child.parentSpanId).toBe(parent.spanId);
+	});
+
+	it("should log failed spans as errors once", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory] });
+
+		const span = logger.startSpan("payment");
+		span.setStatus("error", "declined");
+		await span.end();
+		await span.end();
+
+		expect(memory.entries).toHaveLength(1);
+		expect(memory.entries[0]).toMatchObject({
+			level: "error",
+			message: { status: "error", status_message: "declined" },
+		});
+	});
+
+	it("should return headers for outgoing fetches", () => {
+		const logger = getLokiLogger({ transports: [], request });
+		const span = logger.startSpan("fetch");
+
+		expect(span.traceHeaders()).toEqual({
+			traceparent: `00-${TRACE_ID}-${span.spanId}-01`,
+			tracestate: "vendor=value",
+		});
+		expect(logger.traceHeaders()).toEqual({
+			traceparent: TRACEPARENT,
+			tracestate: "vendor=value",
+		});
+		expect(
+			getLokiLogger({ transports: [] }).traceHeaders().traceparent,
+		).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+	});
+
+	it("should start one trace for requests without traceparent", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({
+			transports: [memory],
+			request: new Request("https://example.com", {
+				headers: { "cf-ray": "8a1b2c3d4e5f6789-NRT" },
+			}),
+		});
+		await logger.info("test");
+		const { trace_id, span_id } = memory.entries[0].labels;
+
+		expect(trace_id).toBe("00000000000000008a1b2c3d4e5f6789");
+		expect(logger.traceHeaders()).toEqual({
+			traceparent: `00-${trace_id}-${span_id}-01`,
+		});
+		expect(logger.traceHeaders()).toEqual(logger.traceHeaders());
+		expect(logger.startSpan("child").parentSpanId).toBe(span_id);
+
+		const withoutRay = getLokiLogger({
+			transports: [],
+			request: new Request("https://example.com"),
+		});
+		expect(withoutRay.traceHeaders()).toEqual(withoutRay.traceHeaders());
+	});
+
+	it("should record spans in wrap", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory], request });
+
+		await logger.wrap("ok", () => 1)();
+		await expect(
+			logger.wrap("fail", () => {
+				throw new Error("boom");
+			})(),
+		).rejects.toThrow("boom");
+
+		expect(memory.entries[0]).toMatchObject({
+			level: "info",
+			labels: { trace_id: TRACE_ID },
+			message: {
+				message: "Function ok executed",
+				function_name: "ok",
+				status: "ok",
+				parent_span_id: PARENT_ID,
+			},
+		});
+		expect(memory.entries[1]).toMatchObject({
+			level: "error",
+			message: {
+				message: "Function fail failed",
+				status: "error",
+				status_message: "boom",
+			},
+		});
+		expect(memory.entries[0].labels.span_id).not.toBe(
+			memory.entries[1].labels.span_id,
+		);
+	});
+
+	it("should carry the span IDs on logs inside wrap", async () => {
+		const memory = memoryTransport();
+		const logger = getLokiLogger({ transports: [memory], request });
+
+		await logger.wrap("handler", async () => {
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			await getCurrentLogger().info("inside");
+		})();
+
+		const [inside, ended] = memory.entries;
+		expect(inside.message).toEqual({ message: "inside" });
+		expect(inside.labels).toMatchObject({
+			trace_id: TRACE_ID,
+			span_id: ended.labels.span_id,
+		});
+		expect(ended.message).toMatchObject({
+			message: "Function handler executed",
+		});
+		expect(() => getCurrentLogger()).toThrow("outside of runWithLogger()");
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * W3C Trace Context
+ */
+export type TraceContext = {
+	/**
+	 * 32 lowercase hex characters
+	 */
+	traceId: string;
+	/**
+	 * 16 lowercase hex characters
+	 */
+	spanId: string;
+	/**
+	 * 2 hex characters, "01" when sampled
+	 */
+	traceFlags: string;
+	/**
+	 * Vendor-specific tracestate header value
+	 */
+	traceState?: string;
+	/**
+	 * True when the context came from an incoming request
+	 */
+	remote?: boolean;
+};
+
+const TRACEPARENT_PATTERN =
+	/^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parse a traceparent header (and optional tracestate)
+ *
+ * @param traceparent
+ * @param tracestate
+ */
+export function parseTraceparent(
+	traceparent: string | null | undefined,
+	tracestate?: string | null,
+): TraceContext | undefined {
+	const match = TRACEPARENT_PATTERN.exec(
+		(traceparent || "").trim().toLowerCase(),
+	);
+	if (!match) {
+		return undefined;
+	}
+	const [, version, traceId, spanId, traceFlags, rest] = match;
+	if (
+		version === "ff" ||
+		(version === "00" && rest !== undefined) ||
+		/^0+$/.test(traceId) ||
+		/^0+$/.test(spanId)
+	) {
+		return undefined;
+	}
+
+	const context: TraceContext = { traceId, spanId, traceFlags, remote: true };
+	if (tracestate) {
+		context.traceState = tracestate;
+	}
+	return context;
+}
+
+/**
+ * Format a traceparent header
+ *
+ * @param context
+ */
+export function formatTraceparent(context: TraceContext): string {
+	return `00-${context.traceId}-${context.spanId}-${context.traceFlags}`;
+}
+
+/**
+ * Get the headers that propagate a trace context to downstream services
+ *
+ * @param context
+ */
+export function getTraceHeaders(context: TraceContext): Record<string, string> {
+	const headers: Record<string, string> = {
+		traceparent: formatTraceparent(context),
+	};
+	if (context.traceState) {
+		headers.tracestate = context.traceState;
+	}
+	return headers;
+}
+
+/**
+ * Get the trace context of a request from its traceparent/tracestate headers
+ *
+ * @param request
+ */
+export function getRequestTraceContext(
+	request: Request,
+): TraceContext | undefined {
+	return parseTraceparent(
+		request.headers.get("traceparent"),
+		request.headers.get("tracestate"),
+	);
+}
+
+/**
+ * Generate a random trace ID
+ */
+export function generateTraceId(): string {
+	return randomHex(16);
+}
+
+/**
+ * Generate a random span ID
+ */
+export function generateSpanId(): string {
+	return randomHex(8);
+}
+
+function randomHex(bytes: number): string {
+	const values = new Uint8Array(bytes);
+	do {
+		crypto.getRandomValues(values);
+	} while (values.every((value) => value === 0));
+	return Array.from(values, (value) =>
+		value.toString(16).padStart(2, "0"),
+	).join("");
+}
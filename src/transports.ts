@@ -0,0 +1,169 @@
+import { withoutCapture } from "./capture";
+import { colorize, formatConsoleLine, supportsColor } from "./format";
+import { LOG_LEVEL_COLORS, type LogLevel } from "./levels";
+import type { LokiLabels } from "./logger";
+import { safeStringify } from "./serialize";
+
+/**
+ * Log entry passed to transports
+ */
+export type LogEntry<T extends string = string> = {
+	level: LogLevel;
+	/**
+	 * Unix time in ms
+	 */
+	timestamp: number;
+	/**
+	 * Normalized message object
+	 */
+	message: object;
+	/**
+	 * Default, cf, request and call labels merged (without level)
+	 */
+	labels: LokiLabels<T>;
+};
+
+/**
+ * Log destination
+ */
+export type Transport<T extends string = string> = {
+	/**
+	 * Name for debugging
+	 */
+	name?: string;
+	/**
+	 * Minimum log level written to this transport
+	 */
+	minLevel?: LogLevel;
+	/**
+	 * Write an entry. A returned promise is passed to ctx.waitUntil or awaited.
+	 */
+	write: (entry: LogEntry<T>) => Promise<void> | undefined | void;
+	/**
+	 * Deliver buffered entries
+	 */
+	flush?: () => Promise<void>;
+};
+
+/**
+ * Console output formats
+ * - pretty: time, level, message, fields and labels
+ * - logfmt: key=value pairs
+ * - json: single-line JSON with time, level, fields and labels,
+ *   indexed by Workers Logs
+ * - ecs: single-line JSON in Elastic Common Schema
+ */
+export type ConsoleFormat = "pretty" | "logfmt" | "json" | "ecs";
+
+/**
+ * Console transport config
+ */
+export type ConsoleTransportConfig<T extends string = string> = {
+	minLevel?: LogLevel;
+	/**
+	 * Prefix each line with a colorized level (default: false)
+	 */
+	pretty?: boolean;
+	/**
+	 * JSON indentation (default: 0)
+	 */
+	indent?: number;
+	/**
+	 * Output format, or a custom formatter returning the arguments for
+	 * console.log (default: the message as JSON)
+	 */
+	format?: ConsoleFormat | ((entry: LogEntry<T>) => unknown[]);
+	/**
+	 * ANSI colors (default: only on a TTY, off with NO_COLOR, on with FORCE_COLOR)
+	 */
+	colors?: boolean;
+};
+
+/**
+ * Create a transport that writes logs with console.log
+ *
+ * @param config
+ */
+export const consoleTransport = <T extends string = string>(
+	config: ConsoleTransportConfig<T> = {},
+): Transport<T> => {
+	const { format } = config;
+	const colors = config.colors ?? supportsColor();
+
+	const getConsoleArgs = (entry: LogEntry<T>): unknown[] => {
+		if (typeof format === "function") {
+			return format(entry);
+		}
+		if (format) {
+			return [formatConsoleLine(format, entry, colors)];
+		}
+
+		const line = safeStringify(entry.message, config.indent || 0);
+		if (!config.pretty) {
+			return [line];
+		}
+		return [
+			colorize(
+				`[${entry.level.toUpperCase()}]`,
+				LOG_LEVEL_COLORS[entry.level] ?? "",
+				colors,
+			),
+			line,
+		];
+	};
+
+	return {
+		name: "console",
+		minLevel: config.minLevel,
+		write: (entry) => {
+			const args = getConsoleArgs(entry);
+			// Not captured by captureConsole, which would log the entry again
+			withoutCapture(() => console.log(...args));
+		},
+	};
+};
+
+/**
+ * Memory transport config
+ */
+export type MemoryTransportConfig = {
+	minLevel?: LogLevel;
+	/**
+	 * Maximum number of kept entries. The oldest are dropped first.
+	 */
+	limit?: number;
+};
+
+/**
+ * Transport that keeps entries in an array
+ */
+export type MemoryTransport<T extends string = string> = Transport<T> & {
+	entries: LogEntry<T>[];
+	clear: () => void;
+};
+
+/**
+ * Create a transport that keeps logs in memory
+ *
+ * @param config
+ */
+export const memoryTransport = <T extends string = string>(
+	config: MemoryTransportConfig = {},
+): MemoryTransport<T> => {
+	const entries: LogEntry<T>[] = [];
+
+	return {
+		name: "memory",
+		minLevel: config.minLevel,
+		entries,
+		write: (entry) => {
+			entries.push(entry);
+			if (config.limit !== undefined && entries.length > config.limit) {
+				entries.splice(0, entries.length - config.limit);
+			}
+		},
+		clear: () => {
+			entries.length = 0;
+		},
+	};
+};